@@ -0,0 +1,93 @@
+import { parseArgs } from 'util';
+import type { GenerateTypesOptions } from './generateTypes';
+import type { GenerateClientOptions } from './generateClient';
+
+/**
+ * Parse `beamable generateTypes` flags. Unknown flags and missing values throw.
+ * @example parseGenerateTypesArgs(['--out', 'types', '--include', 'items,Minions', '--check'])
+ */
+export function parseGenerateTypesArgs(args: string[]): GenerateTypesOptions {
+  const { values } = parseArgs({
+    args,
+    strict: true,
+    allowPositionals: false,
+    options: {
+      out: { type: 'string' },
+      cid: { type: 'string' },
+      pid: { type: 'string' },
+      'api-url': { type: 'string' },
+      'env-file': { type: 'string' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      schemas: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      'no-clean': { type: 'boolean' },
+      check: { type: 'boolean' },
+    },
+  });
+  return {
+    outDir: values.out,
+    cid: values.cid,
+    pid: values.pid,
+    apiUrl: values['api-url'],
+    envFile: values['env-file'],
+    include: splitList(values.include),
+    exclude: splitList(values.exclude),
+    schemas: values.schemas ?? false,
+    dryRun: values['dry-run'] ?? false,
+    clean: !values['no-clean'],
+    check: values.check ?? false,
+  };
+}
+
+/**
+ * Parse `beamable exportContent [file]` flags. The output file is the positional argument or --out, not both.
+ * Unknown flags and missing values throw.
+ * @example parseExportContentArgs(['--out', 'bundles/content.json'])
+ */
+export function parseExportContentArgs(args: string[]): { outFile?: string } {
+  const { values, positionals } = parseArgs({
+    args,
+    strict: true,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+    },
+  });
+  if (positionals.length > 1 || (positionals.length === 1 && values.out !== undefined)) {
+    throw new Error('Pass one output file, either as an argument or with --out');
+  }
+  return { outFile: values.out ?? positionals[0] };
+}
+
+/**
+ * Parse `beamable generateClient <openapi.json>` flags. Unknown flags, missing values and a missing document throw.
+ * @example parseGenerateClientArgs(['shop.openapi.json', '--out', 'src/clients/ShopClient.ts'])
+ */
+export function parseGenerateClientArgs(args: string[]): GenerateClientOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    strict: true,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      service: { type: 'string' },
+      'class-name': { type: 'string' },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error('Pass exactly one OpenAPI JSON file, e.g. beamable generateClient shop.openapi.json');
+  }
+  return {
+    input: positionals[0],
+    outFile: values.out,
+    serviceName: values.service,
+    className: values['class-name'],
+  };
+}
+
+/** Repeated flags and comma-separated values both work: --include a,b --include c */
+function splitList(values: string[] | undefined): string[] | undefined {
+  if (!values) return undefined;
+  return values.flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+}
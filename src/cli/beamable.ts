@@ -1,34 +1,115 @@
 #!/usr/bin/env node
+import { parseExportContentArgs, parseGenerateClientArgs, parseGenerateTypesArgs } from './args';
+import type { GenerateTypesOptions, GenerateTypesResult } from './generateTypes';
+import type { GenerateClientOptions } from './generateClient';
 
-const [,, command] = process.argv;
+const [,, command, ...args] = process.argv;
 
 if (command === 'generateTypes') {
+  let options: GenerateTypesOptions;
+  try {
+    options = parseGenerateTypesArgs(args);
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    console.log('Run "beamable --help" for available options');
+    process.exit(1);
+  }
+  const onResult = (result: GenerateTypesResult) => {
+    // --check fails the process so CI catches content drift
+    if (options.check && !result.upToDate) process.exit(1);
+  };
   // Try to import from compiled version first, fallback to source
   try {
-    require('./generateTypes').generateTypes().catch((e: unknown) => {
+    require('./generateTypes').generateTypes(options).then(onResult, (e: unknown) => {
       console.error('❌ Type generation failed:', e);
       process.exit(1);
     });
   } catch {
     // Fallback to source version for development
     import('./generateTypes').then(mod => {
-      mod.generateTypes().catch((e: unknown) => {
+      mod.generateTypes(options).then(onResult, (e: unknown) => {
         console.error('❌ Type generation failed:', e);
         process.exit(1);
       });
     });
   }
+} else if (command === 'generateClient') {
+  let options: GenerateClientOptions;
+  try {
+    options = parseGenerateClientArgs(args);
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    console.log('Run "beamable --help" for available options');
+    process.exit(1);
+  }
+  try {
+    require('./generateClient').generateClient(options).catch((e: unknown) => {
+      console.error('❌ Client generation failed:', e);
+      process.exit(1);
+    });
+  } catch {
+    import('./generateClient').then(mod => {
+      mod.generateClient(options).catch((e: unknown) => {
+        console.error('❌ Client generation failed:', e);
+        process.exit(1);
+      });
+    });
+  }
+} else if (command === 'exportContent') {
+  let outFile: string | undefined;
+  try {
+    ({ outFile } = parseExportContentArgs(args));
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    console.log('Run "beamable --help" for available options');
+    process.exit(1);
+  }
+  try {
+    require('./exportContent').exportContent(outFile).catch((e: unknown) => {
+      console.error('❌ Content export failed:', e);
+      process.exit(1);
+    });
+  } catch {
+    import('./exportContent').then(mod => {
+      mod.exportContent(outFile).catch((e: unknown) => {
+        console.error('❌ Content export failed:', e);
+        process.exit(1);
+      });
+    });
+  }
 } else if (command === '--help' || command === '-h' || !command) {
   console.log(`
 🚀 Beamable SDK CLI
 
 Available commands:
   generateTypes    Generate TypeScript types from your Beamable realm content
+  exportContent    Export all content (manifest + JSON) to an offline bundle file
+  generateClient   Generate a typed microservice client from an OpenAPI JSON document
   --help, -h       Show this help message
 
 Usage:
-  npx beamable generateTypes    # Generate types in your project's src/types/content/
+  npx beamable generateTypes [options]    # Generate types in your project's src/types/content/
   npm run generateTypes         # If you have the SDK installed locally
+  npx beamable exportContent [file | --out <file>]    # Write the bundle (default: content-bundle.json)
+  npx beamable generateClient <openapi.json> [options]
+
+generateTypes options:
+  --out <dir>          Output directory (default: <project root>/src/types/content)
+  --cid <cid>          Customer ID (overrides VITE_CID)
+  --pid <pid>          Project ID (overrides VITE_PID)
+  --api-url <url>      API URL (overrides VITE_API_URL)
+  --env-file <file>    Load environment variables from this file instead of .env
+  --include <types>    Only generate these content types (comma-separated or repeated)
+  --exclude <types>    Skip these content types (comma-separated or repeated)
+  --schemas            Also write <type>.schema.json for runtime validation
+  --dry-run            Show what would be written or deleted without changing files
+  --no-clean           Keep files in the output directory that were not generated
+  --check              Exit with code 1 if the generated files are out of date (for CI)
+
+generateClient options:
+  --out <file>         Output file (default: <project root>/src/microservices/<ClassName>.ts)
+  --service <name>     Microservice name (default: read from the document)
+  --class-name <name>  Client class name (default: <ServiceName>Client)
 
 Environment Variables:
   VITE_CID         Your Beamable Customer ID (required)
@@ -36,8 +117,11 @@ Environment Variables:
   VITE_API_URL     Beamable API URL (default: https://api.beamable.com)
   VITE_HASH        Content hash (optional)
 
-Example:
+Examples:
   VITE_CID=your-cid VITE_PID=your-pid npx beamable generateTypes
+  npx beamable generateTypes --env-file .env.staging --include items,Minions --out src/content-types
+  npx beamable generateTypes --check
+  npx beamable generateClient openapi/shop.json --out src/clients/ShopClient.ts
 `);
 } else {
   console.error('❌ Unknown command:', command);
@@ -0,0 +1,58 @@
+/**
+ * The index module written by generateTypes: re-exports every generated type and registers them with the
+ * SDK, so ContentModule.getContent infers return types from content ids.
+ */
+
+export const SDK_MODULE = '@omen.foundation/beamable-sdk';
+
+export interface GeneratedContentType {
+  contentType: string; // e.g. 'AbilityMaps'
+  typeName: string; // The root interface in the generated file
+  fileName: string; // Without the .d.ts extension
+  contentIds: string[];
+}
+
+/**
+ * Render index.d.ts for the generated types.
+ * @param types The generated content types
+ * @param sdkModule The module specifier to augment
+ */
+export function renderContentIndex(types: GeneratedContentType[], sdkModule: string = SDK_MODULE): string {
+  const sorted = [...types].sort((a, b) => a.contentType.localeCompare(b.contentType));
+  const lines = ['// Generated by `beamable generateTypes`. Do not edit.'];
+
+  for (const { typeName, fileName } of sorted) {
+    lines.push(`import type { ${typeName} } from './${fileName}';`);
+  }
+  lines.push('', `export type { ${sorted.map((t) => t.typeName).join(', ')} };`);
+
+  lines.push('', '/** Generated types by content type. */', 'export interface ContentTypes {');
+  for (const { contentType, typeName } of sorted) lines.push(`  ${quote(contentType)}: ${typeName};`);
+  lines.push('}');
+
+  lines.push('', '/** Generated types by content id. */', 'export interface ContentIds {');
+  for (const { contentIds, typeName } of sorted) {
+    for (const id of [...contentIds].sort()) lines.push(`  ${quote(id)}: ${typeName};`);
+  }
+  lines.push('}');
+
+  lines.push(
+    '',
+    '/** Every content type in the manifest. */',
+    'export type ContentType = keyof ContentTypes;',
+    '',
+    '/** Every content id in the manifest. */',
+    'export type ContentId = keyof ContentIds;',
+    '',
+    `declare module '${sdkModule}' {`,
+    '  interface ContentTypeRegistry extends ContentTypes {}',
+    '  interface ContentIdRegistry extends ContentIds {}',
+    '}',
+    ''
+  );
+  return lines.join('\n');
+}
+
+function quote(key: string): string {
+  return `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
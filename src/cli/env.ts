@@ -0,0 +1,36 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+/**
+ * Read the CLI config from VITE_* environment variables, after loading envFile (default: .env in the
+ * working directory). Variables already set in the environment win over the file.
+ */
+export function getConfigFromEnv(envFile?: string) {
+  if (envFile && !fs.existsSync(envFile)) {
+    throw new Error(`Env file not found: ${envFile}`);
+  }
+  dotenv.config(envFile ? { path: envFile } : undefined);
+  return {
+    apiUrl: process.env.VITE_API_URL || 'https://api.beamable.com',
+    cid: process.env.VITE_CID || '',
+    pid: process.env.VITE_PID || '',
+    hash: process.env.VITE_HASH || '',
+  };
+}
+
+export function findProjectRoot(): string {
+  // Start from current working directory and walk up until we find package.json
+  let currentDir = process.cwd();
+  
+  while (currentDir !== path.dirname(currentDir)) {
+    const packageJsonPath = path.join(currentDir, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      return currentDir;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+  
+  // If no package.json found, use current working directory
+  return process.cwd();
+}
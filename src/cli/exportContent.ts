@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+import { BeamableCore } from '../core/BeamableCore';
+import { ContentModule } from '../modules/Content';
+import { findProjectRoot, getConfigFromEnv } from './env';
+
+export async function exportContent(outFile: string = 'content-bundle.json') {
+  const config = getConfigFromEnv();
+  if (!config.cid || !config.pid) {
+    throw new Error('VITE_CID and VITE_PID must be set in environment variables or .env file');
+  }
+  const outPath = path.resolve(findProjectRoot(), outFile);
+
+  console.log('Exporting content bundle...');
+  const content = new ContentModule(new BeamableCore(config));
+  const bundle = await content.exportBundle();
+
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(bundle), 'utf8');
+  console.log(`✅ Exported ${Object.keys(bundle.content).length} content entries to ${outPath}`);
+}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { findProjectRoot } from './env';
+import { clientClassName, microserviceNameFromDocument, renderMicroserviceClient, type OpenApiDocument } from './openApiClient';
+
+export interface GenerateClientOptions {
+  input: string; // The microservice's OpenAPI JSON document
+  outFile?: string; // Where to write the client (default: <project root>/src/microservices/<ClassName>.ts)
+  serviceName?: string; // Overrides the microservice name read from the document
+  className?: string; // Defaults to <ServiceName>Client
+}
+
+export interface GenerateClientResult {
+  outFile: string;
+  serviceName: string;
+  className: string;
+}
+
+/**
+ * Write a typed client class for a microservice from its OpenAPI document.
+ * @throws Error when the document cannot be read, is not OpenAPI 3 or names no microservice
+ */
+export async function generateClient(options: GenerateClientOptions): Promise<GenerateClientResult> {
+  const inputPath = path.resolve(options.input);
+  if (!fs.existsSync(inputPath)) throw new Error(`OpenAPI document not found: ${options.input}`);
+  let doc: OpenApiDocument;
+  try {
+    doc = JSON.parse(fs.readFileSync(inputPath, 'utf8'));
+  } catch (e) {
+    throw new Error(`${options.input} is not valid JSON: ${(e as Error).message}`);
+  }
+
+  const serviceName = options.serviceName ?? microserviceNameFromDocument(doc);
+  if (!serviceName) throw new Error('The microservice name could not be read from the document. Pass --service <name>.');
+  const className = options.className ?? clientClassName(serviceName);
+  const source = renderMicroserviceClient(doc, { serviceName, className, source: path.basename(inputPath) });
+
+  const outFile = options.outFile ? path.resolve(options.outFile) : path.join(findProjectRoot(), 'src', 'microservices', `${className}.ts`);
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, source, 'utf8');
+  console.log(`✅ Generated ${className} for the ${serviceName} microservice -> ${outFile}`);
+  return { outFile, serviceName, className };
+}
@@ -1,34 +1,31 @@
 import fs from 'fs';
 import path from 'path';
 import { BeamableCore } from '../core/BeamableCore';
-import { createRequire } from 'module';
-import dotenv from 'dotenv';
+import { findProjectRoot, getConfigFromEnv } from './env';
+import { inferSchema, renderJsonSchema, renderTypeScript } from './inferTypes';
+import { renderContentIndex, type GeneratedContentType } from './contentIndex';
 
-dotenv.config();
-
-function getConfigFromEnv() {
-  return {
-    apiUrl: process.env.VITE_API_URL || 'https://api.beamable.com',
-    cid: process.env.VITE_CID || '',
-    pid: process.env.VITE_PID || '',
-    hash: process.env.VITE_HASH || '',
-  };
+export interface GenerateTypesOptions {
+  outDir?: string; // Where to write the types (default: <project root>/src/types/content)
+  cid?: string; // Overrides VITE_CID
+  pid?: string; // Overrides VITE_PID
+  apiUrl?: string; // Overrides VITE_API_URL
+  envFile?: string; // Load this file instead of .env
+  include?: string[]; // Only generate these content types
+  exclude?: string[]; // Skip these content types
+  schemas?: boolean; // Also write <type>.schema.json for runtime validation with jsonSchemaValidator
+  dryRun?: boolean; // Report what would change without touching the output directory
+  clean?: boolean; // Delete files in the output directory that were not generated (default: true)
+  check?: boolean; // Like dryRun; result.upToDate tells whether the generated files match the content
 }
 
-function findProjectRoot(): string {
-  // Start from current working directory and walk up until we find package.json
-  let currentDir = process.cwd();
-  
-  while (currentDir !== path.dirname(currentDir)) {
-    const packageJsonPath = path.join(currentDir, 'package.json');
-    if (fs.existsSync(packageJsonPath)) {
-      return currentDir;
-    }
-    currentDir = path.dirname(currentDir);
-  }
-  
-  // If no package.json found, use current working directory
-  return process.cwd();
+export interface GenerateTypesResult {
+  outDir: string;
+  types: string[]; // The content types generated
+  written: string[]; // Files created or changed (or that would be, in dryRun and check mode)
+  deleted: string[]; // Files removed by cleanup (or that would be)
+  unchanged: string[];
+  upToDate: boolean; // Nothing was or would be written or deleted
 }
 
 function extractContentType(contentId: string): string {
@@ -40,46 +37,82 @@ function extractContentType(contentId: string): string {
   return parts[0];
 }
 
-export async function generateTypes() {
-  // 1. Find the consumer's project root
-  const projectRoot = findProjectRoot();
-  const typesDir = path.join(projectRoot, 'src', 'types', 'content');
-  
-  console.log(`Project root: ${projectRoot}`);
+function toSafeName(contentType: string): string {
+  return contentType.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+function toTypeName(safeName: string): string {
+  return safeName.charAt(0).toUpperCase() + safeName.slice(1);
+}
+
+export async function generateTypes(options: GenerateTypesOptions = {}): Promise<GenerateTypesResult> {
+  const readOnly = Boolean(options.dryRun || options.check);
+  const clean = options.clean ?? true;
+
+  // 1. Find the output directory
+  let typesDir: string;
+  if (options.outDir) {
+    typesDir = path.resolve(options.outDir);
+  } else {
+    const projectRoot = findProjectRoot();
+    typesDir = path.join(projectRoot, 'src', 'types', 'content');
+    console.log(`Project root: ${projectRoot}`);
+  }
   console.log(`Types will be generated in: ${typesDir}`);
 
-  // 2. Load config from env
-  const config = getConfigFromEnv();
+  // 2. Load config from env, with flags taking precedence
+  const env = getConfigFromEnv(options.envFile);
+  const config = {
+    ...env,
+    cid: options.cid || env.cid,
+    pid: options.pid || env.pid,
+    apiUrl: options.apiUrl || env.apiUrl,
+  };
   if (!config.cid || !config.pid) {
-    throw new Error('VITE_CID and VITE_PID must be set in environment variables or .env file');
+    throw new Error('VITE_CID and VITE_PID must be set in environment variables or .env file, or passed as --cid and --pid');
   }
   const core = new BeamableCore(config);
 
-  // 3. Fetch the manifest
+  // 3. Fetch the manifest and apply the type filters
   console.log('Fetching content manifest...');
   const manifest = await core.request('GET', '/basic/content/manifest/public/json');
-  const entries = manifest.entries || manifest.manifest?.entries || [];
-  if (!Array.isArray(entries)) throw new Error('No entries found in manifest');
-  console.log(`Found ${entries.length} content entries in manifest`);
+  const allEntries = manifest.entries || manifest.manifest?.entries || [];
+  if (!Array.isArray(allEntries)) throw new Error('No entries found in manifest');
+  console.log(`Found ${allEntries.length} content entries in manifest`);
+
+  const isSelected = (contentType: string) =>
+    (!options.include?.length || options.include.includes(contentType)) && !options.exclude?.includes(contentType);
+  const entryId = (entry: any): string => entry.contentId || entry.id || entry.name || '';
+  const entries = allEntries.filter((entry: any) => isSelected(extractContentType(entryId(entry))));
+  // Files of types that exist but were filtered out are left alone by cleanup
+  const skippedTypes = new Set<string>(
+    allEntries.map((entry: any) => extractContentType(entryId(entry))).filter((type: string) => !isSelected(type))
+  );
+  if (skippedTypes.size) {
+    console.log(`Skipping ${skippedTypes.size} filtered content types: ${[...skippedTypes].join(', ')}`);
+  }
 
   // 4. Download all content JSONs and group by type
   console.log('Downloading content objects and grouping by type...');
   const contentByType: Record<string, any[]> = {};
+  const idsByType: Record<string, string[]> = {};
   let downloaded = 0;
   for (const entry of entries) {
     try {
-      const contentId = entry.contentId || entry.id || entry.name || `content_${downloaded}`;
+      const contentId = entryId(entry) || `content_${downloaded}`;
       const res = await fetch(entry.uri);
       if (!res.ok) throw new Error(`Failed to fetch content: ${contentId}`);
       const json = await res.json();
-      
+
       // Group by content type
       const contentType = extractContentType(contentId);
       if (!contentByType[contentType]) {
         contentByType[contentType] = [];
+        idsByType[contentType] = [];
       }
       contentByType[contentType].push(json);
-      
+      idsByType[contentType].push(contentId);
+
       downloaded++;
       if (downloaded % 10 === 0 || downloaded === entries.length) {
         console.log(`Downloaded ${downloaded}/${entries.length} content objects...`);
@@ -94,46 +127,84 @@ export async function generateTypes() {
     console.log(`  ${type}: ${items.length} items`);
   });
 
-  // 5. Create the types directory in the consumer's project
+  // 5. Generate types from a schema merged across every item of the type
+  console.log('Generating TypeScript types...');
+  const files = new Map<string, string>();
+  const generatedTypes: GeneratedContentType[] = [];
+
+  for (const [contentType, items] of Object.entries(contentByType)) {
+    const safeName = toSafeName(contentType);
+    const typeName = toTypeName(safeName);
+    const schema = inferSchema(items);
+    files.set(`${safeName}.d.ts`, renderTypeScript(schema, typeName));
+    if (options.schemas) {
+      files.set(`${safeName}.schema.json`, `${JSON.stringify(renderJsonSchema(schema, typeName), null, 2)}\n`);
+    }
+    generatedTypes.push({ contentType, typeName, fileName: safeName, contentIds: idsByType[contentType] });
+    const schemaNote = options.schemas ? ` + ${safeName}.schema.json` : '';
+    console.log(`Generated type for ${contentType} (${items.length} items) -> ${safeName}.d.ts${schemaNote}`);
+  }
+
+  // 6. The registry that lets getContent infer types from content ids. Types filtered out by include/exclude
+  // stay registered while their files exist, so a filtered run does not break code using their ids
+  const indexTypes = [...generatedTypes];
+  for (const contentType of skippedTypes) {
+    const safeName = toSafeName(contentType);
+    if (!fs.existsSync(path.join(typesDir, `${safeName}.d.ts`))) continue;
+    const contentIds: string[] = allEntries.map(entryId).filter((id: string) => extractContentType(id) === contentType);
+    indexTypes.push({ contentType, typeName: toTypeName(safeName), fileName: safeName, contentIds });
+  }
+  files.set('index.d.ts', renderContentIndex(indexTypes));
+  const idCount = indexTypes.reduce((count, type) => count + type.contentIds.length, 0);
+  console.log(`Generated content registry (${idCount} ids) -> index.d.ts`);
+
+  // 7. Compare with the output directory
+  const existingFiles = fs.existsSync(typesDir) ? fs.readdirSync(typesDir) : [];
+  const result: GenerateTypesResult = { outDir: typesDir, types: Object.keys(contentByType), written: [], deleted: [], unchanged: [], upToDate: true };
+  for (const [file, contents] of files) {
+    const filePath = path.join(typesDir, file);
+    const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    (current === contents ? result.unchanged : result.written).push(file);
+  }
+  if (clean) {
+    const protectedFiles = new Set([...skippedTypes].flatMap((type) => [`${toSafeName(type)}.d.ts`, `${toSafeName(type)}.schema.json`]));
+    result.deleted = existingFiles.filter((file) => !files.has(file) && !protectedFiles.has(file));
+  }
+  result.upToDate = result.written.length === 0 && result.deleted.length === 0;
+
+  if (readOnly) {
+    const verb = options.check ? 'Out of date' : 'Would write';
+    result.written.forEach((file) => console.log(`${verb}: ${file}`));
+    result.deleted.forEach((file) => console.log(`${options.check ? 'Obsolete' : 'Would delete'}: ${file}`));
+    if (options.check) {
+      console.log(result.upToDate ? '✅ Generated types are up to date' : `❌ ${result.written.length + result.deleted.length} generated files are out of date. Run "beamable generateTypes" to update them.`);
+    } else {
+      console.log(`Dry run: ${result.written.length} files to write, ${result.deleted.length} to delete, ${result.unchanged.length} unchanged`);
+    }
+    return result;
+  }
+
+  // 8. Write the files into the output directory
   if (!fs.existsSync(typesDir)) {
     fs.mkdirSync(typesDir, { recursive: true });
     console.log(`Created types directory: ${typesDir}`);
   }
-
-  // 6. Generate types using json2ts
-  console.log('Generating TypeScript types...');
-  const require = createRequire(import.meta.url || __filename);
-  const json2ts = require('json2ts');
-  const writtenFiles = new Set<string>();
-  let generated = 0;
-  
-  for (const [contentType, items] of Object.entries(contentByType)) {
-    // Use the first item as a representative sample for the type
-    const representativeItem = items[0];
-    const safeName = contentType.replace(/[^a-zA-Z0-9_]/g, '_');
-    const typeName = safeName.charAt(0).toUpperCase() + safeName.slice(1);
-    const tsDef = json2ts.convert(JSON.stringify(representativeItem), { rootName: typeName });
-    const filePath = path.join(typesDir, `${safeName}.d.ts`);
-    fs.writeFileSync(filePath, tsDef, 'utf8');
-    writtenFiles.add(`${safeName}.d.ts`);
-    generated++;
-    console.log(`Generated type for ${contentType} (${items.length} items) -> ${safeName}.d.ts`);
+  for (const file of result.written) {
+    fs.writeFileSync(path.join(typesDir, file), files.get(file)!, 'utf8');
   }
 
-  // 7. Delete files in consumer's src/types/content/ not present in manifest
-  console.log('Cleaning up obsolete type files...');
-  const existingFiles = fs.readdirSync(typesDir);
-  let deleted = 0;
-  for (const file of existingFiles) {
-    if (!writtenFiles.has(file)) {
+  // 9. Delete files in the output directory that were not generated
+  if (clean) {
+    console.log('Cleaning up obsolete type files...');
+    for (const file of result.deleted) {
       fs.unlinkSync(path.join(typesDir, file));
-      deleted++;
     }
-  }
-  if (deleted > 0) {
-    console.log(`Deleted ${deleted} obsolete type files`);
+    if (result.deleted.length > 0) {
+      console.log(`Deleted ${result.deleted.length} obsolete type files`);
+    }
   }
 
-  console.log(`✅ Type generation complete! Generated ${generated} content types in ${typesDir}`);
+  console.log(`✅ Type generation complete! Generated ${generatedTypes.length} content types in ${typesDir}`);
   console.log(`📁 Types are now available for import in your project`);
-} 
\ No newline at end of file
+  return result;
+}
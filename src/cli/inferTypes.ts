@@ -0,0 +1,191 @@
+import type { JsonSchema } from '../modules/ContentValidation';
+
+/**
+ * Schema inference for generateTypes: merges every sample of a content type into one schema, then renders
+ * it as TypeScript interfaces and, optionally, JSON Schema.
+ */
+
+type PrimitiveType = 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * Everything seen at one position in the samples. A position can hold several kinds of value at once,
+ * which become a union.
+ */
+export interface SchemaNode {
+  primitives: Set<PrimitiveType>;
+  object: ObjectSchema | null;
+  array: SchemaNode | null; // Merged schema of every array element seen here
+}
+
+export interface ObjectSchema {
+  count: number; // How many objects were merged
+  fields: Map<string, { node: SchemaNode; present: number }>;
+}
+
+function createNode(): SchemaNode {
+  return { primitives: new Set(), object: null, array: null };
+}
+
+/**
+ * Merge one value into a schema node.
+ */
+export function mergeSample(node: SchemaNode, value: unknown): SchemaNode {
+  if (value === null || value === undefined) {
+    node.primitives.add('null');
+  } else if (Array.isArray(value)) {
+    node.array ??= createNode();
+    for (const item of value) mergeSample(node.array, item);
+  } else if (typeof value === 'object') {
+    node.object ??= { count: 0, fields: new Map() };
+    node.object.count++;
+    for (const [key, child] of Object.entries(value)) {
+      let field = node.object.fields.get(key);
+      if (!field) {
+        field = { node: createNode(), present: 0 };
+        node.object.fields.set(key, field);
+      }
+      field.present++;
+      mergeSample(field.node, child);
+    }
+  } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    node.primitives.add(typeof value as PrimitiveType);
+  }
+  return node;
+}
+
+/**
+ * Infer one schema from every sample. Fields missing from some objects become optional, and positions
+ * holding different kinds of value become unions.
+ */
+export function inferSchema(samples: unknown[]): SchemaNode {
+  const root = createNode();
+  for (const sample of samples) mergeSample(root, sample);
+  return root;
+}
+
+/**
+ * Render a schema as TypeScript declarations. The root object becomes `export interface <rootName>`,
+ * nested objects become interfaces named after their field, and `RootObject` is exported as an alias of the
+ * root for code written against earlier generated files.
+ */
+export function renderTypeScript(schema: SchemaNode, rootName: string): string {
+  const interfaces: Array<{ name: string; body: string }> = [];
+  const byShape = new Map<string, string>(); // Fields with the same name and shape share one interface
+  const taken = new Set<string>();
+
+  const declare = (object: ObjectSchema, candidate: string, parentName: string): string => {
+    const shape = `${candidate}:${shapeKey(object)}`;
+    const existing = byShape.get(shape);
+    if (existing) return existing;
+
+    let name = candidate;
+    if (taken.has(name)) name = `${parentName}${candidate}`;
+    for (let i = 2; taken.has(name); i++) name = `${candidate}${i}`;
+    taken.add(name);
+    byShape.set(shape, name);
+    const declaration = { name, body: '' };
+    interfaces.push(declaration);
+    // Rendered after the name is reserved, so nested interfaces come after this one and can be qualified by it
+    declaration.body = renderBody(object, name);
+    return name;
+  };
+
+  const renderBody = (object: ObjectSchema, ownName: string): string => {
+    const lines = [...object.fields].map(([key, field]) => {
+      const optional = field.present < object.count ? '?' : '';
+      return `  ${formatKey(key)}${optional}: ${renderType(field.node, typeNameFor(key), ownName)};`;
+    });
+    return lines.join('\n');
+  };
+
+  const renderType = (node: SchemaNode, candidate: string, parentName: string): string => {
+    const members: string[] = [];
+    if (node.object) members.push(declare(node.object, candidate, parentName));
+    if (node.array) {
+      const item = renderType(node.array, singularize(candidate), parentName);
+      members.push(item.includes(' | ') ? `(${item})[]` : `${item}[]`);
+    }
+    for (const primitive of ['string', 'number', 'boolean', 'null'] as const) {
+      if (node.primitives.has(primitive)) members.push(primitive);
+    }
+    return members.length ? members.join(' | ') : 'unknown';
+  };
+
+  taken.add(rootName);
+  let rootType: string;
+  if (schema.object && !schema.array && schema.primitives.size === 0) {
+    const declaration = { name: rootName, body: '' };
+    interfaces.push(declaration);
+    declaration.body = renderBody(schema.object, rootName);
+    rootType = rootName;
+  } else {
+    rootType = renderType(schema, `${rootName}Item`, rootName);
+  }
+
+  const declarations = interfaces.map(({ name, body }) => `export interface ${name} {\n${body}${body ? '\n' : ''}}`);
+  if (rootType !== rootName) declarations.unshift(`export type ${rootName} = ${rootType};`);
+  declarations.push(`export type RootObject = ${rootName};`);
+  return `${declarations.join('\n\n')}\n`;
+}
+
+/**
+ * Render a schema as JSON Schema, for runtime validation with jsonSchemaValidator. Fields missing from some
+ * samples are not required; fields never seen are allowed, so content can gain fields before types are
+ * regenerated.
+ */
+export function renderJsonSchema(schema: SchemaNode, title: string): JsonSchema {
+  return { $schema: 'http://json-schema.org/draft-07/schema#', title, ...nodeToJsonSchema(schema) };
+}
+
+function nodeToJsonSchema(node: SchemaNode): JsonSchema {
+  const options: JsonSchema[] = [];
+  if (node.object) {
+    const { count, fields } = node.object;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, field] of fields) {
+      properties[key] = nodeToJsonSchema(field.node);
+      if (field.present === count) required.push(key);
+    }
+    options.push(required.length ? { type: 'object', properties, required } : { type: 'object', properties });
+  }
+  if (node.array) options.push({ type: 'array', items: nodeToJsonSchema(node.array) });
+  const primitives = (['string', 'number', 'boolean', 'null'] as const).filter((p) => node.primitives.has(p));
+  if (primitives.length) options.push({ type: primitives.length === 1 ? primitives[0] : [...primitives] });
+
+  if (options.length === 0) return {};
+  if (options.length === 1) return options[0];
+  return { anyOf: options };
+}
+
+/**
+ * A canonical string for an object schema, including which fields are optional.
+ */
+function shapeKey(object: ObjectSchema): string {
+  const nodeKey = (node: SchemaNode): string =>
+    [
+      [...node.primitives].sort().join('|'),
+      node.object ? `{${shapeKey(node.object)}}` : '',
+      node.array ? `[${nodeKey(node.array)}]` : '',
+    ].join(';');
+  return [...object.fields]
+    .map(([key, field]) => `${JSON.stringify(key)}${field.present < object.count ? '?' : ''}:${nodeKey(field.node)}`)
+    .join(',');
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function typeNameFor(key: string): string {
+  const words = key.replace(/^\$/, '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  if (!name) return 'Field';
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function singularize(name: string): string {
+  if (/ies$/.test(name)) return name.slice(0, -3) + 'y';
+  if (/[^s]s$/.test(name)) return name.slice(0, -1);
+  return name;
+}
@@ -0,0 +1,368 @@
+/**
+ * Renders a typed microservice client from an OpenAPI 3 document, as written by `beamable generateClient`.
+ * Every method calls BeamableCore.requestMicroservice.
+ */
+
+import { SDK_MODULE } from './contentIndex';
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  nullable?: boolean;
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+  description?: string;
+  deprecated?: boolean;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiMediaTypes {
+  content?: Record<string, { schema?: OpenApiSchema }>;
+  description?: string;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiMediaTypes & { required?: boolean };
+  responses?: Record<string, OpenApiMediaTypes>;
+  security?: Array<Record<string, string[]>>;
+}
+
+export interface OpenApiDocument {
+  openapi?: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url: string }>;
+  paths?: Record<string, Record<string, OpenApiOperation>>;
+  components?: { schemas?: Record<string, OpenApiSchema> };
+  security?: Array<Record<string, string[]>>;
+}
+
+export interface MicroserviceClientOptions {
+  serviceName?: string; // The microservice name passed to requestMicroservice. Read from the document by default
+  className?: string; // Defaults to <ServiceName>Client
+  sdkModule?: string; // Where BeamableCore is imported from
+  source?: string; // The document's file name, mentioned in the header comment
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+const MICROSERVICE_PREFIX = /^\/basic\/[^/]*micro_([^/]+)/;
+
+/**
+ * The microservice name from the document: the micro_<Name> route of its paths or servers, else info.title.
+ */
+export function microserviceNameFromDocument(doc: OpenApiDocument): string | undefined {
+  for (const route of [...Object.keys(doc.paths ?? {}), ...(doc.servers ?? []).map((server) => pathOf(server.url))]) {
+    const match = route.match(MICROSERVICE_PREFIX);
+    if (match) return match[1];
+  }
+  return doc.info?.title ? toPascalCase(doc.info.title) : undefined;
+}
+
+/** The default client class name: <ServiceName>Client. */
+export function clientClassName(serviceName: string): string {
+  return `${toPascalCase(serviceName)}Client`;
+}
+
+/**
+ * Render the client module for an OpenAPI document.
+ * @throws Error when the document is not OpenAPI 3 or no microservice name is known
+ */
+export function renderMicroserviceClient(doc: OpenApiDocument, options: MicroserviceClientOptions = {}): string {
+  if (!doc.openapi?.startsWith('3.')) {
+    throw new Error('Only OpenAPI 3 documents are supported');
+  }
+  const serviceName = options.serviceName ?? microserviceNameFromDocument(doc);
+  if (!serviceName) throw new Error('The microservice name could not be read from the document. Pass --service <name>.');
+  const className = options.className ?? clientClassName(serviceName);
+  const renderer = new TypeRenderer(doc.components?.schemas ?? {});
+
+  const methods: string[] = [];
+  const methodNames = new Set<string>();
+  let needsQueryHelper = false;
+  for (const [route, item] of Object.entries(doc.paths ?? {})) {
+    for (const httpMethod of HTTP_METHODS) {
+      const operation = item[httpMethod];
+      if (!operation) continue;
+      const path = route.replace(MICROSERVICE_PREFIX, '') || '/';
+      const name = uniqueName(toCamelCase(operation.operationId ?? `${httpMethod} ${path}`), methodNames);
+      const rendered = renderMethod(renderer, name, httpMethod.toUpperCase(), path, operation, serviceName, operation.security ?? doc.security);
+      needsQueryHelper = needsQueryHelper || rendered.usesQuery;
+      methods.push(rendered.code);
+    }
+  }
+
+  const source = options.source ? ` from ${options.source}` : '';
+  const lines = [
+    `// Generated by \`beamable generateClient\`${source}. Do not edit.`,
+    `import type { BeamableCore } from '${options.sdkModule ?? SDK_MODULE}';`,
+    '',
+  ];
+  for (const declaration of renderer.declarations()) lines.push(declaration, '');
+
+  lines.push(...docComment([`Client for the ${serviceName} microservice.`, doc.info?.description], ''));
+  lines.push(
+    `export class ${className} {`,
+    `  static readonly serviceName = ${quote(serviceName)};`,
+    '  private core: BeamableCore;',
+    '',
+    '  constructor(core: BeamableCore) {',
+    '    this.core = core;',
+    '  }',
+    ...methods.flatMap((method) => ['', method]),
+    '}',
+    ''
+  );
+  if (needsQueryHelper) {
+    lines.push(
+      'function toQueryString(params: Record<string, unknown>): string {',
+      '  const entries = Object.entries(params).filter(([, value]) => value !== undefined && value !== null);',
+      "  if (entries.length === 0) return '';",
+      "  return `?${entries.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`).join('&')}`;",
+      '}',
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+function renderMethod(
+  renderer: TypeRenderer,
+  name: string,
+  httpMethod: string,
+  path: string,
+  operation: OpenApiOperation,
+  serviceName: string,
+  security: OpenApiOperation['security']
+): { code: string; usesQuery: boolean } {
+  const typeBase = toPascalCase(name);
+  const route = path;
+  const parameters = operation.parameters ?? [];
+  const pathParams = parameters.filter((p) => p.in === 'path');
+  const queryParams = parameters.filter((p) => p.in === 'query');
+  const signature: string[] = [];
+  const docs: Array<string | undefined> = [operation.summary, operation.description];
+  const tags: string[] = [];
+
+  for (const param of pathParams) {
+    const identifier = uniqueName(toCamelCase(param.name), new Set(['request', 'query', 'gamertag', 'signal']));
+    signature.push(`${identifier}: ${renderer.typeOf(param.schema ?? { type: 'string' })}`);
+    tags.push(`@param ${identifier} ${param.description ?? `The ${param.name} path parameter`}`);
+    path = path.split(`{${param.name}}`).join(`\${encodeURIComponent(String(${identifier}))}`);
+  }
+
+  const requestSchema = firstSchema(operation.requestBody);
+  if (requestSchema) {
+    signature.push(`request: ${renderer.named(requestSchema, `${typeBase}Request`)}`);
+    tags.push(`@param request ${operation.requestBody?.description ?? 'The request body'}`);
+  }
+
+  if (queryParams.length) {
+    const fields = queryParams.map(
+      (p) => `${propertyKey(p.name)}${p.required ? '' : '?'}: ${renderer.typeOf(p.schema ?? { type: 'string' })}`
+    );
+    const optional = queryParams.every((p) => !p.required);
+    signature.push(`query${optional ? '?' : ''}: { ${fields.join('; ')} }`);
+    tags.push(`@param query ${queryParams.map((p) => `${p.name}: ${p.description ?? 'query parameter'}`).join('; ')}`);
+  }
+
+  signature.push('gamertag?: string', 'signal?: AbortSignal');
+  tags.push('@param gamertag (Optional) Player ID to impersonate (server mode)', '@param signal (Optional) Cancels the request');
+
+  const response = Object.entries(operation.responses ?? {}).find(([code]) => /^2/.test(code))?.[1];
+  const responseSchema = firstSchema(response);
+  const returnType = responseSchema ? renderer.named(responseSchema, `${typeBase}Response`) : 'void';
+  if (response?.description) tags.push(`@returns ${response.description}`);
+  if (operation.deprecated) tags.push('@deprecated');
+
+  // Callables are authenticated unless the operation (or document) declares no security requirements
+  const auth = !(Array.isArray(security) && security.length === 0);
+  const query = queryParams.map((p) => `${propertyKey(p.name)}: query?.${safeAccess(p.name)}`).join(', ');
+  const interpolated = queryParams.length ? `${path}\${toQueryString({ ${query} })}` : path;
+  const url = interpolated.includes('${') ? `\`${interpolated}\`` : quote(interpolated);
+  const args = [quote(httpMethod), quote(serviceName), url, requestSchema ? 'request' : 'undefined', `{ auth: ${auth}, gamertag, signal }`];
+
+  const code = [
+    ...docComment([...docs, `${httpMethod} ${route}`], '  ', tags),
+    `  async ${name}(${signature.join(', ')}): Promise<${returnType}> {`,
+    `    return this.core.requestMicroservice(${args.join(', ')});`,
+    '  }',
+  ].join('\n');
+  return { code, usesQuery: queryParams.length > 0 };
+}
+
+/**
+ * Turns schemas into TypeScript, collecting a declaration for every component schema it reaches
+ * and for inline request and response bodies.
+ */
+class TypeRenderer {
+  private schemas: Record<string, OpenApiSchema>;
+  private names = new Map<string, string>(); // Component schema name -> TypeScript name
+  private output = new Map<string, string>(); // TypeScript name -> declaration
+  private used = new Set<string>();
+
+  constructor(schemas: Record<string, OpenApiSchema>) {
+    this.schemas = schemas;
+    for (const name of Object.keys(schemas)) this.names.set(name, uniqueName(toPascalCase(name), this.used));
+  }
+
+  declarations(): string[] {
+    return [...this.output.values()];
+  }
+
+  /** The type of a request or response body, declared as `name` when it is an inline object. */
+  named(schema: OpenApiSchema, name: string): string {
+    if (schema.$ref || !isObjectSchema(schema)) return this.typeOf(schema);
+    const typeName = uniqueName(name, this.used);
+    this.output.set(typeName, this.declaration(typeName, schema));
+    return typeName;
+  }
+
+  typeOf(schema: OpenApiSchema, indent = ''): string {
+    const type = this.baseType(schema, indent);
+    return schema.nullable && type !== 'null' ? `${wrapUnion(type)} | null` : type;
+  }
+
+  private baseType(schema: OpenApiSchema, indent: string): string {
+    if (schema.$ref) return this.reference(schema.$ref);
+    if (schema.allOf) return schema.allOf.map((s) => wrapUnion(this.typeOf(s, indent))).join(' & ');
+    const union = schema.oneOf ?? schema.anyOf;
+    if (union) return union.map((s) => this.typeOf(s, indent)).join(' | ');
+    if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+    if (Array.isArray(schema.type)) return schema.type.map((type) => this.typeOf({ ...schema, type }, indent)).join(' | ');
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `${wrapUnion(this.typeOf(schema.items ?? {}, indent))}[]`;
+    }
+    if (isObjectSchema(schema)) return this.objectType(schema, indent);
+    return 'unknown';
+  }
+
+  private reference(ref: string): string {
+    const name = decodeURIComponent(ref.replace(/^#\/components\/schemas\//, '')).replace(/~1/g, '/').replace(/~0/g, '~');
+    const typeName = this.names.get(name);
+    const schema = this.schemas[name];
+    if (!typeName || !schema) throw new Error(`Unresolved schema reference ${ref}`);
+    if (!this.output.has(typeName)) {
+      this.output.set(typeName, ''); // Reserve first, so recursive schemas terminate
+      this.output.set(typeName, this.declaration(typeName, schema));
+    }
+    return typeName;
+  }
+
+  private declaration(typeName: string, schema: OpenApiSchema): string {
+    const docs = docComment([schema.description], '', schema.deprecated ? ['@deprecated'] : []);
+    const body = isObjectSchema(schema) && !schema.allOf && !schema.oneOf && !schema.anyOf
+      ? `export interface ${typeName} ${this.objectType(schema, '')}`
+      : `export type ${typeName} = ${this.typeOf(schema)};`;
+    return [...docs, body].join('\n');
+  }
+
+  private objectType(schema: OpenApiSchema, indent: string): string {
+    const properties = Object.entries(schema.properties ?? {});
+    const extra = schema.additionalProperties;
+    const extraType = extra === true ? 'unknown' : extra ? this.typeOf(extra, `${indent}  `) : undefined;
+    if (properties.length === 0) return extraType ? `Record<string, ${extraType}>` : 'Record<string, unknown>';
+
+    const required = new Set(schema.required ?? []);
+    const lines = ['{'];
+    for (const [name, property] of properties) {
+      lines.push(...docComment([property.description], `${indent}  `, property.deprecated ? ['@deprecated'] : []));
+      lines.push(`${indent}  ${propertyKey(name)}${required.has(name) ? '' : '?'}: ${this.typeOf(property, `${indent}  `)};`);
+    }
+    if (extraType) lines.push(`${indent}  [key: string]: unknown;`);
+    lines.push(`${indent}}`);
+    return lines.join('\n');
+  }
+}
+
+function isObjectSchema(schema: OpenApiSchema): boolean {
+  return schema.type === 'object' || (!schema.type && (!!schema.properties || !!schema.additionalProperties));
+}
+
+function firstSchema(media: OpenApiMediaTypes | undefined): OpenApiSchema | undefined {
+  const content = media?.content ?? {};
+  return (content['application/json'] ?? Object.values(content)[0])?.schema;
+}
+
+function docComment(paragraphs: Array<string | undefined>, indent: string, tags: string[] = []): string[] {
+  const text = paragraphs.filter((p): p is string => !!p?.trim()).map((p) => p.trim().replace(/\*\//g, '*\\/'));
+  if (text.length === 0 && tags.length === 0) return [];
+  if (text.length === 1 && tags.length === 0 && !text[0].includes('\n')) return [`${indent}/** ${text[0]} */`];
+  const body = [...text.flatMap((p, i) => [...(i ? [''] : []), ...p.split('\n')]), ...tags];
+  return [`${indent}/**`, ...body.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)), `${indent} */`];
+}
+
+function wrapUnion(type: string): string {
+  return /[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function safeAccess(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `[${quote(name)}]`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url;
+  }
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function toPascalCase(value: string): string {
+  const name = words(value).map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name || 'Unnamed';
+}
+
+function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) candidate = `${name}${i}`;
+  used.add(candidate);
+  return candidate;
+}
@@ -2,7 +2,9 @@ import { AuthModule } from '../modules/Auth';
 import { InventoryModule } from '../modules/Inventory';
 import { StatsModule } from '../modules/Stats';
 import { ContentModule } from '../modules/Content';
+import { LeaderboardsModule } from '../modules/Leaderboards';
 import { BeamableCore, BeamableConfig } from './BeamableCore';
+import { isBeamableAuthError } from './BeamableError';
 
 /**
  * Configure the Beamable SDK globally.
@@ -19,6 +21,7 @@ export function configureBeamable(config: BeamableConfig) {
 
 export class BeamContext {
   static _default: Promise<BeamContext> | null = null;
+  private static _createdCount = 0;
   static get Default(): Promise<BeamContext> {
     if (!this._default) {
       this._default = BeamContext.createDefault();
@@ -32,15 +35,19 @@ export class BeamContext {
   public readonly Inventory: InventoryModule;
   public readonly Stats: StatsModule;
   public readonly Content: ContentModule;
+  public readonly Leaderboards: LeaderboardsModule;
   public readonly core: BeamableCore;
+  public readonly name: string;
   public playerId: number | null = null; // Auto-populated after login
 
-  private constructor(core: BeamableCore) {
+  private constructor(core: BeamableCore, name: string, content?: ContentModule) {
     this.core = core;
+    this.name = name;
     this.Auth = new AuthModule(core, this);
-    this.Inventory = new InventoryModule(core);
+    this.Inventory = new InventoryModule(core, this);
     this.Stats = new StatsModule(core);
-    this.Content = new ContentModule(core);
+    this.Content = content ?? new ContentModule(core, core['config'].content);
+    this.Leaderboards = new LeaderboardsModule(core);
     this.onReady = new Promise((resolve) => {
       this._onReadyResolver = resolve;
     });
@@ -48,15 +55,67 @@ export class BeamContext {
 
   static async createDefault(): Promise<BeamContext> {
     const core = new BeamableCore(); // Uses global config
-    const context = new BeamContext(core);
+    return BeamContext.initialize(new BeamContext(core, 'default'));
+  }
+
+  /**
+   * Create an additional context with its own configuration and token session, independent of
+   * BeamContext.Default and of every other context. Useful for servers handling many players or
+   * local multiplayer test harnesses.
+   * @param config The configuration for this context
+   * @param name A name identifying the context, also used to key its persisted tokens.
+   * Unnamed contexts are numbered in creation order.
+   * @example
+   * const player1 = await BeamContext.create({ cid, pid, apiUrl }, 'player1');
+   * const player2 = await BeamContext.create({ cid, pid, apiUrl }, 'player2');
+   */
+  static async create(config: BeamableConfig, name?: string): Promise<BeamContext> {
+    const contextName = name ?? `context-${++BeamContext._createdCount}`;
+    const core = new BeamableCore(config, contextName);
+    return BeamContext.initialize(new BeamContext(core, contextName));
+  }
+
+  /**
+   * A view of this server-mode context acting as one player. Every request made through its modules
+   * sends X-BEAM-GAMERTAG for that player, and a call naming another player (a different gamertag or
+   * inventory playerId) throws instead of being sent. The view shares this context's content cache.
+   * @param gamertag The player id to impersonate
+   * @throws BeamableError when this context is not in server mode
+   * @example
+   * const server = await BeamContext.Default; // configured with mode: 'server'
+   * const player = server.forPlayer(playerId);
+   * await player.Stats.getStats(`client.public.player.${playerId}`);
+   * await player.Inventory.addCurrency(String(playerId), 'currency.gems', 10);
+   */
+  forPlayer(gamertag: string | number): BeamContext {
+    const context = new BeamContext(this.core.forPlayer(gamertag), `${this.name}:${gamertag}`, this.Content);
+    context.playerId = Number(gamertag);
+    context._onReadyResolver?.();
+    return context;
+  }
+
+  /** The player this context impersonates, when created by forPlayer; otherwise null. */
+  get gamertag(): string | null {
+    return this.core.gamertag;
+  }
+
+  private static async initialize(context: BeamContext): Promise<BeamContext> {
+    const core = context.core;
     // If in server mode, skip guest login and player info fetch
     if (core['config'].mode === 'server') {
       context._onReadyResolver?.();
       return context;
     }
+    // Resume a persisted session, if a TokenStorage is configured
+    await core.restoreTokens();
     // If we already have an access token, fetch player info immediately
     if (core.getTokens().accessToken) {
-      await context._fetchPlayerInfo();
+      if (!(await context._restorePlayer())) {
+        // The persisted tokens were revoked or expired beyond refresh: start over as a guest
+        await core.clearTokens();
+        await context.Auth.guestLogin();
+        await context._fetchPlayerInfo();
+      }
       context._onReadyResolver?.();
     } else {
       // Otherwise, perform guest login and resolve when done
@@ -81,6 +140,21 @@ export class BeamContext {
     }
   }
 
+  /**
+   * Fetch the player of a restored session.
+   * @returns false when the server rejected the tokens (401/403, also after refreshing)
+   */
+  private async _restorePlayer(): Promise<boolean> {
+    try {
+      const account = await this.Auth.getCurrentAccount();
+      this.playerId = account.id;
+    } catch (error) {
+      if (isBeamableAuthError(error)) return false;
+      console.warn('Failed to fetch player info:', error);
+    }
+    return true;
+  }
+
   // Called by AuthModule after a successful login
   async _resolveOnReady() {
     await this._fetchPlayerInfo();
@@ -1,18 +1,86 @@
-import CryptoJS from 'crypto-js';
+import type { TokenStorage } from './TokenStorage';
+import type { ContentCacheOptions } from '../modules/Content';
+import { BeamableAbortError, BeamableError, BeamableHttpError, BeamableNetworkError, BeamableTimeoutError } from './BeamableError';
+import { BeamableMiddleware, BeamableRequestContext, runMiddleware } from './Middleware';
+import { FixtureOptions, FixtureRecorder } from './Fixtures';
+import { RequestSigner, createRequestSigner } from './RequestSigner';
+import { RetryPolicy, computeRetryDelay, isRetryableRequest, parseRetryAfter, resolveRetryPolicy } from './RetryPolicy';
 
 export interface BeamableConfig {
   apiUrl: string;
   cid: string;
   pid: string;
   hash?: string;
-  secret?: string; // For server mode
+  secret?: string; // For server mode: signs every request with the realm secret
+  adminToken?: string; // For server mode: authenticates with an admin access token when no secret is set
+  signer?: RequestSigner; // For server mode: custom request signing, used instead of secret and adminToken
   mode?: 'client' | 'server'; // Defaults to client
+  tokenRefreshLeewaySeconds?: number; // Refresh this long before the access token expires. Defaults to 60
+  tokenStorage?: TokenStorage; // Persists tokens between sessions (client mode). Defaults to memory only
+  retry?: RetryPolicy | false; // Retry transient failures. Defaults to DEFAULT_RETRY_POLICY; false disables retries
+  middleware?: BeamableMiddleware[]; // Request/response hooks, run in order before any registered with BeamableCore.use
+  fetch?: typeof fetch; // Custom fetch implementation (Node agents, proxies, test stubs). Defaults to the global fetch
+  timeoutMs?: number; // Default per-attempt timeout until response headers arrive. Defaults to no timeout
+  content?: ContentCacheOptions; // Manifest TTL for BeamContext's ContentModule
+  fixtures?: FixtureOptions | FixtureRecorder; // Record HTTP interactions to a file, or replay them without a network
+}
+
+/**
+ * Options accepted by BeamableCore.request.
+ */
+export interface RequestOptions {
+  auth?: boolean;
+  microservice?: boolean | string;
+  gamertag?: string;
+  idempotent?: boolean; // Whether the request is safe to retry. Defaults to true for the retry policy's retryableMethods
+  signal?: AbortSignal; // Cancels the request, including pending retries
+  timeoutMs?: number; // Overrides BeamableConfig.timeoutMs for this request
+}
+
+/**
+ * Options accepted by BeamableCore.fetchJson.
+ */
+export type FetchJsonOptions = Pick<RequestOptions, 'signal' | 'timeoutMs' | 'idempotent'>;
+
+/**
+ * Authentication state for one player identity.
+ */
+interface TokenSession {
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null;
+  refreshInFlight: Promise<void> | null;
+}
+
+const DEFAULT_REFRESH_LEEWAY_SECONDS = 60;
+
+// One recorder per fixture options object, so every core built from a config records into the same file
+const fixtureRecorders = new WeakMap<FixtureOptions, FixtureRecorder>();
+
+function fixtureRecorderFor(fixtures: FixtureOptions | FixtureRecorder): FixtureRecorder {
+  if (fixtures instanceof FixtureRecorder) return fixtures;
+  let recorder = fixtureRecorders.get(fixtures);
+  if (!recorder) {
+    recorder = new FixtureRecorder(fixtures);
+    fixtureRecorders.set(fixtures, recorder);
+  }
+  return recorder;
+}
+
+function createTokenSession(): TokenSession {
+  return { accessToken: null, refreshToken: null, expiresAt: null, refreshInFlight: null };
 }
 
 export class BeamableCore {
-  private static accessToken: string | null = null;
-  private static refreshToken: string | null = null;
+  // Shared by every core built from the global config, so logging in before BeamContext.Default carries over
+  private static defaultSession: TokenSession = createTokenSession();
+  private session: TokenSession;
   private config: BeamableConfig;
+  private sessionName: string;
+  private middleware: BeamableMiddleware[];
+  private fixtures: BeamableMiddleware | null;
+  private impersonatedGamertag: string | null = null;
+  private signer: RequestSigner | null;
 
   static _globalConfig: BeamableConfig | null = null;
 
@@ -22,22 +90,194 @@ export class BeamableCore {
 
   static get globalConfig(): BeamableConfig {
     if (!this._globalConfig) {
-      throw new Error('BeamableCore is not configured. Call configureBeamable({ cid, pid, apiUrl }) before using the SDK.');
+      throw new BeamableError('BeamableCore is not configured. Call configureBeamable({ cid, pid, apiUrl }) before using the SDK.');
     }
     return this._globalConfig;
   }
 
-  constructor(config?: BeamableConfig) {
+  /**
+   * @param config Explicit configuration. When omitted, the core uses the global config and
+   * shares the default token session; when passed, the core gets its own isolated token session.
+   * @param sessionName Name of the token session, used as part of the key for persisted tokens
+   * @throws BeamableError when server mode runs in a browser or has no secret, adminToken or signer
+   */
+  constructor(config?: BeamableConfig, sessionName: string = 'default') {
     this.config = config || BeamableCore.globalConfig;
+    this.session = config ? createTokenSession() : BeamableCore.defaultSession;
+    this.sessionName = sessionName;
+    this.middleware = [...(this.config.middleware ?? [])];
+    this.signer = createRequestSigner(this.config);
+    // Every configured credential is scrubbed from recordings
+    const credentials = [this.config.secret, this.config.adminToken].filter((value): value is string => !!value);
+    this.fixtures = this.config.fixtures ? fixtureRecorderFor(this.config.fixtures).middleware(credentials) : null;
+  }
+
+  /**
+   * Register a middleware that runs around every HTTP attempt made by this core, after the
+   * middleware already registered.
+   * @returns A function that removes the middleware again
+   * @example
+   * core.use({ onRequest: (req) => { req.headers['X-Trace-Id'] = crypto.randomUUID(); } });
+   */
+  use(middleware: BeamableMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index >= 0) this.middleware.splice(index, 1);
+    };
+  }
+
+  /**
+   * A core that sends every request as the given player (server mode). It shares this core's config,
+   * session and middleware. Requests passing a different gamertag are rejected instead of being sent.
+   * @param gamertag The player id to impersonate
+   * @throws BeamableError outside server mode
+   */
+  forPlayer(gamertag: string | number): BeamableCore {
+    if (this.config.mode !== 'server') {
+      throw new BeamableError('forPlayer needs server mode: impersonation is only honoured for signed requests.');
+    }
+    if (this.impersonatedGamertag !== null && this.impersonatedGamertag !== String(gamertag)) {
+      throw new BeamableError(`This core already acts as player ${this.impersonatedGamertag}`);
+    }
+    const core = new BeamableCore(this.config, this.sessionName);
+    core.session = this.session;
+    core.middleware = this.middleware;
+    core.fixtures = this.fixtures;
+    core.impersonatedGamertag = String(gamertag);
+    return core;
   }
 
-  setTokens(accessToken: string, refreshToken?: string) {
-    BeamableCore.accessToken = accessToken;
-    if (refreshToken) BeamableCore.refreshToken = refreshToken;
+  /** Whether this core signs requests as a trusted server or acts as a player client. */
+  get mode(): 'client' | 'server' {
+    return this.config.mode ?? 'client';
+  }
+
+  /** The player every request of this core impersonates, or null. See forPlayer. */
+  get gamertag(): string | null {
+    return this.impersonatedGamertag;
+  }
+
+  /**
+   * Reject a request acting on another player than the one this core impersonates. Modules call it for
+   * requests naming the player in the body or objectId rather than in the gamertag.
+   * @param playerId The player the request acts on
+   * @throws BeamableError when this is a forPlayer core for a different player
+   */
+  assertActsAs(playerId: string | number, method: string, path: string): void {
+    if (this.impersonatedGamertag !== null && String(playerId) !== this.impersonatedGamertag) {
+      throw new BeamableError(
+        `${method} ${path} would impersonate player ${playerId}, but this core acts as player ${this.impersonatedGamertag}`
+      );
+    }
+  }
+
+  /** Key under which this core's tokens are persisted in the configured TokenStorage. */
+  get tokenStorageKey(): string {
+    return `beamable.tokens.${this.config.cid}.${this.config.pid}.${this.sessionName}`;
+  }
+
+  /**
+   * Store the tokens returned by a login or refresh.
+   * @param accessToken The new access token
+   * @param refreshToken The new refresh token (keeps the current one if omitted)
+   * @param expiresIn Lifetime of the access token in milliseconds, as returned in LoginResponse.expires_in
+   * @returns A promise that resolves once the tokens are persisted to the configured TokenStorage
+   */
+  setTokens(accessToken: string, refreshToken?: string, expiresIn?: number): Promise<void> {
+    this.session.accessToken = accessToken;
+    if (refreshToken) this.session.refreshToken = refreshToken;
+    this.session.expiresAt = typeof expiresIn === 'number' ? Date.now() + expiresIn : null;
+    return this.persistTokens();
   }
 
   getTokens() {
-    return { accessToken: BeamableCore.accessToken, refreshToken: BeamableCore.refreshToken };
+    return {
+      accessToken: this.session.accessToken,
+      refreshToken: this.session.refreshToken,
+      expiresAt: this.session.expiresAt,
+    };
+  }
+
+  /** Forget the tokens of this core's session, including any persisted copy. */
+  async clearTokens(): Promise<void> {
+    this.session.accessToken = null;
+    this.session.refreshToken = null;
+    this.session.expiresAt = null;
+    const storage = this.config.tokenStorage;
+    if (!storage) return;
+    try {
+      await storage.clear(this.tokenStorageKey);
+    } catch (error) {
+      console.warn('Failed to clear persisted tokens:', error);
+    }
+  }
+
+  /**
+   * Load persisted tokens from the configured TokenStorage into this core's session.
+   * Does nothing if the session already holds an access token.
+   * @returns true if tokens were restored
+   */
+  async restoreTokens(): Promise<boolean> {
+    const storage = this.config.tokenStorage;
+    if (!storage || this.session.accessToken) return false;
+    try {
+      const stored = await storage.load(this.tokenStorageKey);
+      if (!stored?.accessToken) return false;
+      this.session.accessToken = stored.accessToken;
+      this.session.refreshToken = stored.refreshToken;
+      this.session.expiresAt = stored.expiresAt;
+      return true;
+    } catch (error) {
+      console.warn('Failed to restore persisted tokens:', error);
+      return false;
+    }
+  }
+
+  private async persistTokens(): Promise<void> {
+    const storage = this.config.tokenStorage;
+    if (!storage || !this.session.accessToken) return;
+    try {
+      await storage.save(this.tokenStorageKey, {
+        accessToken: this.session.accessToken,
+        refreshToken: this.session.refreshToken,
+        expiresAt: this.session.expiresAt,
+      });
+    } catch (error) {
+      console.warn('Failed to persist tokens:', error);
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Concurrent callers share a single in-flight refresh request.
+   */
+  async refreshAccessToken(): Promise<void> {
+    const session = this.session;
+    if (!session.refreshInFlight) {
+      const refreshToken = session.refreshToken;
+      if (!refreshToken) {
+        throw new BeamableError('Cannot refresh access token: no refresh token is available. Log in first.');
+      }
+      session.refreshInFlight = this.request('POST', '/basic/auth/token', {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      })
+        .then((response) => this.setTokens(response.access_token, response.refresh_token, response.expires_in))
+        .finally(() => {
+          session.refreshInFlight = null;
+        });
+    }
+    return session.refreshInFlight;
+  }
+
+  /**
+   * True when the access token is known to expire within the configured leeway.
+   */
+  private isAccessTokenExpiring(): boolean {
+    if (this.session.expiresAt === null) return false;
+    const leeway = (this.config.tokenRefreshLeewaySeconds ?? DEFAULT_REFRESH_LEEWAY_SECONDS) * 1000;
+    return Date.now() >= this.session.expiresAt - leeway;
   }
 
   /**
@@ -46,13 +286,86 @@ export class BeamableCore {
    * @param path API path (should start with /)
    * @param data Request body
    * @param opts Options: auth (boolean), microservice (boolean|string), gamertag (string)
+   *
+   * Authenticated client-mode requests refresh the access token shortly before it expires,
+   * and a request rejected with 401 is replayed once after refreshing the token.
+   * @throws BeamableHttpError (or BeamableAuthError for 401/403) when the server answers with an error status
+   * @throws BeamableNetworkError when no response is received (BeamableTimeoutError when it timed out)
+   * @throws BeamableAbortError when opts.signal is aborted
+   * @throws BeamableError when opts.gamertag conflicts with the player of a forPlayer core
    */
-  async request(
+  async request(method: string, path: string, data?: any, opts: RequestOptions = {}): Promise<any> {
+    throwIfAborted(opts.signal, method, path);
+    if (this.impersonatedGamertag !== null) {
+      if (opts.gamertag) this.assertActsAs(opts.gamertag, method, path);
+      opts = { ...opts, gamertag: this.impersonatedGamertag };
+    }
+    const canRefresh = !!opts.auth && this.config.mode !== 'server' && !!this.session.refreshToken;
+    if (canRefresh && this.isAccessTokenExpiring()) {
+      await this.refreshAccessToken();
+    }
+    const send = (attempt: number) => this.dispatch(this.buildRequest(method, path, data, opts, attempt), true);
+    let response = await this.sendWithRetry(method, path, opts, send);
+    if (response.status === 401 && canRefresh) {
+      await this.refreshAccessToken();
+      response = await this.sendWithRetry(method, path, opts, send);
+    }
+    if (!response.ok) {
+      throw await BeamableHttpError.fromResponse(response, method, path);
+    }
+    return response.json();
+  }
+
+  /**
+   * GET a JSON document from an absolute URL outside the Beamable API, such as the content CDN.
+   * No Beamable headers are added, but the configured fetch, timeout, retry policy and middleware apply.
+   * @throws The same errors as request
+   */
+  async fetchJson<T = any>(url: string, opts: FetchJsonOptions = {}): Promise<T> {
+    throwIfAborted(opts.signal, 'GET', url);
+    const send = (attempt: number) =>
+      this.dispatch({ method: 'GET', url, path: url, headers: {}, options: opts, attempt }, false);
+    const response = await this.sendWithRetry('GET', url, opts, send);
+    if (!response.ok) {
+      throw await BeamableHttpError.fromResponse(response, 'GET', url);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Send a request, retrying network errors and retryable statuses according to the configured RetryPolicy.
+   * Requests that are not idempotent are sent once.
+   */
+  private async sendWithRetry(
     method: string,
     path: string,
-    data?: any,
-    opts: { auth?: boolean; microservice?: boolean | string; gamertag?: string } = {}
-  ): Promise<any> {
+    opts: RequestOptions,
+    send: (attempt: number) => Promise<Response>
+  ): Promise<Response> {
+    const policy = resolveRetryPolicy(this.config.retry);
+    const maxAttempts = isRetryableRequest(policy, method, opts.idempotent) ? Math.max(1, policy.maxAttempts) : 1;
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts;
+      let response: Response;
+      try {
+        response = await send(attempt);
+      } catch (error) {
+        if (isLastAttempt || !policy.retryOnNetworkError || !(error instanceof BeamableNetworkError)) throw error;
+        await sleep(computeRetryDelay(policy, attempt), opts.signal, method, path);
+        continue;
+      }
+      if (isLastAttempt || !policy.retryableStatuses.includes(response.status)) {
+        return response;
+      }
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      await sleep(computeRetryDelay(policy, attempt, retryAfter), opts.signal, method, path);
+    }
+  }
+
+  /**
+   * Build the URL, headers and body of a Beamable API request.
+   */
+  private buildRequest(method: string, path: string, data: any, opts: RequestOptions, attempt: number): BeamableRequestContext {
     let url: string;
     if (opts.microservice) {
       const hash = this.config.hash || '';
@@ -67,33 +380,63 @@ export class BeamableCore {
       'X-BEAM-SCOPE': `${this.config.cid}.${this.config.pid}`,
     };
     // Add Authorization for client mode
-    if (opts.auth && BeamableCore.accessToken && this.config.mode !== 'server') {
-      headers['Authorization'] = `Bearer ${BeamableCore.accessToken}`;
-    }
-    // Server mode: sign the request
-    if (this.config.mode === 'server' && this.config.secret) {
-      const signature = this.calculateSignature(path, data, method);
-      headers['X-BEAM-SIGNATURE'] = signature;
+    if (opts.auth && this.session.accessToken && this.config.mode !== 'server') {
+      headers['Authorization'] = `Bearer ${this.session.accessToken}`;
     }
     // Add gamertag if provided
     if (opts.gamertag) {
       headers['X-BEAM-GAMERTAG'] = opts.gamertag;
     }
-    const fetchOpts: RequestInit = {
+    return {
       method,
+      url,
+      path,
       headers,
-      ...(data && method !== 'GET' ? { body: JSON.stringify(data) } : {}),
+      body: data && method !== 'GET' ? JSON.stringify(data) : undefined,
+      data,
+      options: opts,
+      attempt,
     };
+  }
 
-    //console.log('fetchOpts', fetchOpts);
-
-    const response = await fetch(url, fetchOpts);
-    if (!response.ok) {
-      let error;
-      try { error = await response.json(); } catch { error = { status: response.status }; }
-      throw error;
-    }
-    return response.json();
+  /**
+   * Run a single attempt through the middleware chain and the configured fetch, applying the timeout and abort signal.
+   * @param sign Whether to sign the request in server mode. Requests outside the Beamable API are never signed
+   */
+  private async dispatch(context: BeamableRequestContext, sign: boolean): Promise<Response> {
+    const { method, path } = context;
+    const { signal } = context.options;
+    const timeoutMs = context.options.timeoutMs ?? this.config.timeoutMs;
+    const fetchImpl = this.config.fetch ?? fetch;
+    // Fixtures run last, so they record and replay exactly what the other middleware sends
+    const middleware = this.fixtures ? [...this.middleware, this.fixtures] : this.middleware;
+    return runMiddleware(middleware, context, async (req) => {
+      // Server mode: sign after the middleware ran, so the signature covers exactly what is sent
+      if (sign && this.signer) Object.assign(req.headers, this.signer.sign({ method: req.method, url: req.url, body: req.body }));
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort);
+      let timedOut = false;
+      const timer = timeoutMs ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : undefined;
+      try {
+        throwIfAborted(signal, method, path);
+        return await fetchImpl(req.url, {
+          method: req.method,
+          headers: req.headers,
+          signal: controller.signal,
+          ...(req.body !== undefined ? { body: req.body } : {}),
+        });
+      } catch (error) {
+        throwIfAborted(signal, method, path);
+        if (timedOut) {
+          throw new BeamableTimeoutError(`${method} ${path} timed out after ${timeoutMs}ms`, { method, path, cause: error });
+        }
+        throw new BeamableNetworkError(`${method} ${path} failed: ${(error as Error)?.message ?? error}`, { method, path, cause: error });
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    });
   }
 
   /**
@@ -102,30 +445,36 @@ export class BeamableCore {
    * @param msName Microservice name (e.g., 'CoreService')
    * @param path API path (should start with /)
    * @param data Request body
-   * @param opts Options: auth (boolean), gamertag (string)
+   * @param opts Options: auth (boolean), gamertag (string), signal, timeoutMs and idempotent
    */
   async requestMicroservice(
     method: string,
     msName: string,
     path: string,
     data?: any,
-    opts: { auth?: boolean; gamertag?: string } = {}
+    opts: Omit<RequestOptions, 'microservice'> = {}
   ): Promise<any> {
     return this.request(method, path, data, { ...opts, microservice: msName });
   }
+}
 
-  /**
-   * Calculate the Beamable server signature for server mode requests.
-   * @param uriPathAndQuery The API path (should start with /)
-   * @param body The request body (object or undefined)
-   */
-  private calculateSignature(uriPathAndQuery: string, body?: object | null, method?: string): string {
-    // Signature: Base64(MD5(secret + pid + version + uriPathAndQuery + (body as JSON)))
-    // For DELETE requests, omit the body from the signature even if present
-    const version = '1';
-    let dataToSign = `${this.config.secret}${this.config.pid}${version}${uriPathAndQuery}`;
-    if (body && method !== 'DELETE') dataToSign += JSON.stringify(body);
-    const md5 = CryptoJS.MD5(dataToSign);
-    return CryptoJS.enc.Base64.stringify(md5);
-  }
-} 
\ No newline at end of file
+function throwIfAborted(signal: AbortSignal | undefined, method: string, path: string) {
+  if (signal?.aborted) {
+    throw new BeamableAbortError(`${method} ${path} was aborted`, { method, path, reason: signal.reason });
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined, method: string, path: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new BeamableAbortError(`${method} ${path} was aborted`, { method, path, reason: signal?.reason }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * Base class for every error thrown by the SDK.
+ */
+export class BeamableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BeamableError';
+  }
+}
+
+/**
+ * Details of a failed HTTP request, as passed to BeamableHttpError.
+ */
+export interface BeamableHttpErrorDetails {
+  status: number;
+  method: string;
+  path: string;
+  service?: string;
+  errorCode?: string;
+  body?: any;
+}
+
+/**
+ * The server answered with a non-2xx status.
+ * Beamable error bodies look like { status, service, error, message }; those fields are exposed
+ * as status, service, errorCode and message, and the raw body is kept in body.
+ */
+export class BeamableHttpError extends BeamableError {
+  readonly status: number;
+  readonly method: string;
+  readonly path: string;
+  readonly service?: string;
+  readonly errorCode?: string;
+  readonly body?: any;
+
+  constructor(message: string, details: BeamableHttpErrorDetails) {
+    super(message);
+    this.name = 'BeamableHttpError';
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+    this.service = details.service;
+    this.errorCode = details.errorCode;
+    this.body = details.body;
+  }
+
+  /**
+   * Build the matching error from a failed response, reading the Beamable error body if there is one.
+   * Returns a BeamableAuthError for 401 and 403 responses.
+   */
+  static async fromResponse(response: Response, method: string, path: string): Promise<BeamableHttpError> {
+    let body: any;
+    try { body = await response.json(); } catch { body = undefined; }
+    const details: BeamableHttpErrorDetails = {
+      status: response.status,
+      method,
+      path,
+      service: typeof body?.service === 'string' ? body.service : undefined,
+      errorCode: typeof body?.error === 'string' ? body.error : undefined,
+      body,
+    };
+    const reason = typeof body?.message === 'string' && body.message
+      ? body.message
+      : details.errorCode || response.statusText || 'Request failed';
+    const message = `${method} ${path} failed with status ${response.status}: ${reason}`;
+    if (response.status === 401 || response.status === 403) {
+      return new BeamableAuthError(message, details);
+    }
+    return new BeamableHttpError(message, details);
+  }
+}
+
+/**
+ * The server rejected the request's credentials (401) or permissions (403).
+ */
+export class BeamableAuthError extends BeamableHttpError {
+  constructor(message: string, details: BeamableHttpErrorDetails) {
+    super(message, details);
+    this.name = 'BeamableAuthError';
+  }
+}
+
+/**
+ * The request never got a response: DNS failure, connection refused, CORS, offline, etc.
+ */
+export class BeamableNetworkError extends BeamableError {
+  readonly method: string;
+  readonly path: string;
+  readonly cause: unknown;
+
+  constructor(message: string, details: { method: string; path: string; cause?: unknown }) {
+    super(message);
+    this.name = 'BeamableNetworkError';
+    this.method = details.method;
+    this.path = details.path;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The request did not get a response within the configured timeout. Retried like other network errors.
+ */
+export class BeamableTimeoutError extends BeamableNetworkError {
+  constructor(message: string, details: { method: string; path: string; cause?: unknown }) {
+    super(message, details);
+    this.name = 'BeamableTimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal. Never retried.
+ */
+export class BeamableAbortError extends BeamableError {
+  readonly method: string;
+  readonly path: string;
+  readonly reason: unknown;
+
+  constructor(message: string, details: { method: string; path: string; reason?: unknown }) {
+    super(message);
+    this.name = 'BeamableAbortError';
+    this.method = details.method;
+    this.path = details.path;
+    this.reason = details.reason;
+  }
+}
+
+/**
+ * One problem found by a content validator.
+ */
+export interface BeamableValidationIssue {
+  path: string; // The field that broke, e.g. 'properties.cost.data' or 'properties.waves[2].minion'. '' is the root
+  message: string; // e.g. 'expected number, got string'
+}
+
+/**
+ * Downloaded content did not pass the validator given to ContentModule.getContent or getContentByType.
+ * The message names the first failing field; issues lists every problem found.
+ */
+export class BeamableValidationError extends BeamableError {
+  readonly contentId: string;
+  readonly issues: BeamableValidationIssue[];
+
+  constructor(contentId: string, issues: BeamableValidationIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`Content ${contentId} is invalid at ${first?.path || '(root)'}: ${first?.message ?? 'validation failed'}${more}`);
+    this.name = 'BeamableValidationError';
+    this.contentId = contentId;
+    this.issues = issues;
+  }
+}
+
+/**
+ * In fixture replay mode, a request had no recorded interaction to answer it. Never retried.
+ */
+export class BeamableFixtureError extends BeamableError {
+  readonly method: string;
+  readonly url: string;
+
+  constructor(message: string, details: { method: string; url: string }) {
+    super(message);
+    this.name = 'BeamableFixtureError';
+    this.method = details.method;
+    this.url = details.url;
+  }
+}
+
+export function isBeamableError(error: unknown): error is BeamableError {
+  return error instanceof BeamableError;
+}
+
+export function isBeamableHttpError(error: unknown): error is BeamableHttpError {
+  return error instanceof BeamableHttpError;
+}
+
+export function isBeamableAuthError(error: unknown): error is BeamableAuthError {
+  return error instanceof BeamableAuthError;
+}
+
+export function isBeamableNetworkError(error: unknown): error is BeamableNetworkError {
+  return error instanceof BeamableNetworkError;
+}
+
+export function isBeamableTimeoutError(error: unknown): error is BeamableTimeoutError {
+  return error instanceof BeamableTimeoutError;
+}
+
+export function isBeamableAbortError(error: unknown): error is BeamableAbortError {
+  return error instanceof BeamableAbortError;
+}
+
+export function isBeamableValidationError(error: unknown): error is BeamableValidationError {
+  return error instanceof BeamableValidationError;
+}
+
+export function isBeamableFixtureError(error: unknown): error is BeamableFixtureError {
+  return error instanceof BeamableFixtureError;
+}
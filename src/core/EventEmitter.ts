@@ -0,0 +1,35 @@
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter used by the SDK's observable state.
+ * Events maps each event name to its payload type.
+ */
+export class EventEmitter<Events extends Record<string, any>> {
+  private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event.
+   * @returns A function that removes the listener again
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Call every listener of an event. A throwing listener is logged and does not stop the others.
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of Array.from(this.listeners[event] ?? [])) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.warn(`Listener for '${String(event)}' threw:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import { BeamableError, BeamableFixtureError } from './BeamableError';
+import type { BeamableMiddleware, BeamableRequestContext } from './Middleware';
+
+/**
+ * - record: send requests and save every interaction, replacing what was recorded before
+ * - replay: answer from the recorded interactions without touching the network; unmatched requests throw
+ * - passthrough: send requests and record nothing
+ */
+export type FixtureMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * One recorded request and its response. Tokens, passwords and the secret are redacted.
+ */
+export interface FixtureInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: any; // Parsed JSON body
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: any; // Parsed JSON body
+    text?: string; // Raw body, when it was not JSON
+  };
+}
+
+/**
+ * The contents of a fixture file.
+ */
+export interface FixtureFile {
+  version: 1;
+  interactions: FixtureInteraction[];
+}
+
+/**
+ * Where a FixtureRecorder keeps its interactions.
+ */
+export interface FixtureStore {
+  load(): Promise<FixtureFile | null>;
+  save(fixtures: FixtureFile): Promise<void>;
+}
+
+export interface FixtureOptions {
+  mode?: FixtureMode; // Overridden by the BEAMABLE_FIXTURES environment variable. Defaults to 'replay'
+  file?: string; // JSON file holding the interactions (Node.js only)
+  store?: FixtureStore; // Keep the interactions somewhere else than a file
+  redactKeys?: string[]; // More JSON body keys and query parameters whose values are replaced by '[REDACTED]'
+  ignoreKeys?: string[]; // JSON body keys left out when matching requests. Defaults to ['transaction']
+}
+
+export const FIXTURES_ENV_VAR = 'BEAMABLE_FIXTURES';
+export const REDACTED = '[REDACTED]';
+
+const FIXTURE_MODES: FixtureMode[] = ['record', 'replay', 'passthrough'];
+const REDACTED_HEADERS = ['authorization', 'x-beam-signature'];
+const REDACTED_KEYS = ['access_token', 'refresh_token', 'password', 'newPassword', 'token', 'external_token', 'secret'];
+const DEFAULT_IGNORED_KEYS = ['transaction']; // Generated per call by InventoryModule
+
+/**
+ * Keeps fixtures in memory. Useful for tests of code that records fixtures.
+ */
+export class MemoryFixtureStore implements FixtureStore {
+  private fixtures: FixtureFile | null;
+
+  constructor(fixtures: FixtureFile | null = null) {
+    this.fixtures = fixtures;
+  }
+
+  async load(): Promise<FixtureFile | null> {
+    return this.fixtures;
+  }
+
+  async save(fixtures: FixtureFile): Promise<void> {
+    this.fixtures = JSON.parse(JSON.stringify(fixtures));
+  }
+}
+
+/**
+ * Keeps fixtures in a JSON file on disk (Node.js only). Meant to be committed next to the tests.
+ */
+export class FileFixtureStore implements FixtureStore {
+  private filePath: string;
+
+  /**
+   * @param filePath Path of the JSON file, e.g. 'tests/fixtures/inventory.json'
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<FixtureFile | null> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  async save(fixtures: FixtureFile): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, `${JSON.stringify(fixtures, null, 2)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Records the HTTP interactions of BeamableCore (API requests and content CDN downloads) and replays them
+ * without a network. Install it through BeamableConfig.fixtures; it runs after every other middleware.
+ * Cores built from the same config object share one recorder. Pass the same FixtureRecorder to several
+ * configs to record them into one file.
+ *
+ * Requests are matched on method, URL, X-BEAM-GAMERTAG and JSON body. Identical requests replay their
+ * recorded responses in order, and the last one repeats.
+ * @example
+ * configureBeamable({ cid, pid, apiUrl, fixtures: { file: 'tests/fixtures/shop.json' } });
+ * // BEAMABLE_FIXTURES=record npx vitest run   -> talks to the realm and writes the file
+ * // npx vitest run                            -> replays the file offline
+ */
+export class FixtureRecorder {
+  readonly mode: FixtureMode;
+  private store: FixtureStore;
+  private redactKeys: Set<string>;
+  private ignoreKeys: Set<string>;
+  private recorded: FixtureInteraction[] = [];
+  private replayed: Promise<Map<string, FixtureInteraction[]>> | null = null;
+  private replayPositions = new Map<string, number>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: FixtureOptions) {
+    this.mode = resolveFixtureMode(options.mode);
+    if (options.store) {
+      this.store = options.store;
+    } else if (options.file) {
+      this.store = new FileFixtureStore(options.file);
+    } else {
+      throw new BeamableError('FixtureRecorder needs a file or a store');
+    }
+    this.redactKeys = new Set([...REDACTED_KEYS, ...(options.redactKeys ?? [])]);
+    this.ignoreKeys = new Set(options.ignoreKeys ?? DEFAULT_IGNORED_KEYS);
+  }
+
+  /**
+   * The middleware BeamableCore installs for this recorder.
+   * @param secrets Values scrubbed from everything recorded, such as the server secret
+   */
+  middleware(secrets: string[] = []): BeamableMiddleware {
+    const scrub = secrets.filter(Boolean);
+    return {
+      onRequest: (request) => (this.mode === 'replay' ? this.replay(request, scrub) : undefined),
+      onResponse: (response, request) => (this.mode === 'record' ? this.record(response, request, scrub) : undefined),
+    };
+  }
+
+  private async replay(request: BeamableRequestContext, secrets: string[]): Promise<Response> {
+    if (!this.replayed) this.replayed = this.loadForReplay();
+    const recorded = await this.replayed;
+    const key = this.matchKey(toFixtureRequest(request, this.redactKeys, secrets));
+    const candidates = recorded.get(key);
+    if (!candidates) {
+      throw new BeamableFixtureError(
+        `No recorded fixture matches ${request.method} ${redactUrl(request.url, this.redactKeys, secrets)}. Record it again with ${FIXTURES_ENV_VAR}=record.`,
+        { method: request.method, url: request.url }
+      );
+    }
+    const position = this.replayPositions.get(key) ?? 0;
+    this.replayPositions.set(key, position + 1);
+    const { response } = candidates[Math.min(position, candidates.length - 1)];
+    const body = response.text ?? (response.body === undefined ? '' : JSON.stringify(response.body));
+    return new Response(response.status === 204 || response.status === 304 ? null : body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  }
+
+  private async loadForReplay(): Promise<Map<string, FixtureInteraction[]>> {
+    const fixtures = await this.store.load();
+    if (!fixtures) throw new BeamableError(`No fixtures have been recorded yet. Record them with ${FIXTURES_ENV_VAR}=record.`);
+    const byKey = new Map<string, FixtureInteraction[]>();
+    for (const interaction of fixtures.interactions) {
+      const key = this.matchKey(interaction.request);
+      byKey.set(key, [...(byKey.get(key) ?? []), interaction]);
+    }
+    return byKey;
+  }
+
+  /**
+   * Record one interaction. The body is read here and handed on as a new Response, rather than through
+   * clone(), so the caller's copy does not depend on a tee'd stream outliving the store write.
+   */
+  private async record(response: Response, request: BeamableRequestContext, secrets: string[]): Promise<Response> {
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (name !== 'set-cookie') headers[name] = value;
+    });
+    const body = parseJson(text);
+    this.recorded.push({
+      request: toFixtureRequest(request, this.redactKeys, secrets),
+      response: {
+        status: response.status,
+        headers,
+        ...(body === undefined ? (text ? { text: scrubSecrets(text, secrets) } : {}) : { body: redact(body, this.redactKeys, secrets) }),
+      },
+    });
+    const snapshot: FixtureFile = { version: 1, interactions: [...this.recorded] };
+    this.saving = this.saving.then(() => this.store.save(snapshot));
+    await this.saving;
+    return new Response(response.status === 204 || response.status === 304 ? null : text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private matchKey(request: FixtureInteraction['request']): string {
+    const gamertag = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'x-beam-gamertag')?.[1] ?? '';
+    return JSON.stringify([request.method, request.url, gamertag, omitKeys(request.body, this.ignoreKeys)]);
+  }
+}
+
+/**
+ * The mode from BEAMABLE_FIXTURES if set, else the configured mode, else 'replay'.
+ */
+export function resolveFixtureMode(configured?: FixtureMode): FixtureMode {
+  const fromEnv = typeof process !== 'undefined' ? process.env?.[FIXTURES_ENV_VAR] : undefined;
+  const mode = fromEnv || configured || 'replay';
+  if (!FIXTURE_MODES.includes(mode as FixtureMode)) {
+    throw new BeamableError(`Invalid fixture mode '${mode}'. Expected one of ${FIXTURE_MODES.join(', ')}.`);
+  }
+  return mode as FixtureMode;
+}
+
+function toFixtureRequest(request: BeamableRequestContext, redactKeys: Set<string>, secrets: string[]): FixtureInteraction['request'] {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name] = REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED : scrubSecrets(value, secrets);
+  }
+  const body = request.body === undefined ? undefined : parseJson(request.body) ?? request.body;
+  return {
+    method: request.method,
+    url: redactUrl(request.url, redactKeys, secrets),
+    headers,
+    ...(body === undefined ? {} : { body: redact(body, redactKeys, secrets) }),
+  };
+}
+
+function redactUrl(url: string, keys: Set<string>, secrets: string[]): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return scrubSecrets(url, secrets);
+  const query = url
+    .slice(queryStart + 1)
+    .split('&')
+    .map((pair) => {
+      const name = pair.split('=')[0];
+      return keys.has(decodeQueryName(name)) ? `${name}=${REDACTED}` : pair;
+    })
+    .join('&');
+  return scrubSecrets(`${url.slice(0, queryStart)}?${query}`, secrets);
+}
+
+function decodeQueryName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch {
+    return name;
+  }
+}
+
+function redact(value: any, keys: Set<string>, secrets: string[]): any {
+  if (typeof value === 'string') return scrubSecrets(value, secrets);
+  if (Array.isArray(value)) return value.map((item) => redact(item, keys, secrets));
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = keys.has(key) && item != null ? REDACTED : redact(item, keys, secrets);
+    }
+    return result;
+  }
+  return value;
+}
+
+function omitKeys(value: any, keys: Set<string>): any {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value ?? null;
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.has(key)));
+}
+
+function scrubSecrets(value: string, secrets: string[]): string {
+  return secrets.reduce((result, secret) => result.split(secret).join(REDACTED), value);
+}
+
+function parseJson(text: string): any {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
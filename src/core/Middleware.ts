@@ -0,0 +1,70 @@
+import type { RequestOptions } from './BeamableCore';
+
+/**
+ * A request about to be sent by BeamableCore. Middleware may modify url, headers and body in onRequest.
+ */
+export interface BeamableRequestContext {
+  method: string;
+  url: string;
+  path: string; // API path as passed to BeamableCore.request
+  headers: Record<string, string>;
+  body?: string; // Serialized JSON body, if any
+  data?: any; // The original request data
+  options: RequestOptions;
+  attempt: number; // 1 for the first attempt, incremented on every retry
+}
+
+/**
+ * Hooks run around every HTTP attempt made by BeamableCore, in registration order.
+ * Any hook may be async.
+ */
+export interface BeamableMiddleware {
+  /**
+   * Called before the request is sent. Return a Response to skip the network entirely (e.g. mocks in tests);
+   * the remaining onRequest hooks are skipped but onResponse hooks still run.
+   */
+  onRequest?(request: BeamableRequestContext): void | Response | Promise<void | Response>;
+  /** Called with every response, including error statuses. Return a Response to replace it. */
+  onResponse?(response: Response, request: BeamableRequestContext): void | Response | Promise<void | Response>;
+  /** Called when no response was received. Return a Response to recover; otherwise the error is rethrown. */
+  onError?(error: unknown, request: BeamableRequestContext): void | Response | Promise<void | Response>;
+}
+
+/**
+ * Run the middleware chain around a single fetch.
+ */
+export async function runMiddleware(
+  middleware: readonly BeamableMiddleware[],
+  request: BeamableRequestContext,
+  send: (request: BeamableRequestContext) => Promise<Response>
+): Promise<Response> {
+  let response = await runRequestHooks(middleware, request);
+  if (!response) {
+    try {
+      response = await send(request);
+    } catch (error) {
+      response = await runErrorHooks(middleware, error, request);
+    }
+  }
+  for (const mw of middleware) {
+    const replaced: void | Response = await mw.onResponse?.(response, request);
+    if (replaced) response = replaced;
+  }
+  return response;
+}
+
+async function runRequestHooks(middleware: readonly BeamableMiddleware[], request: BeamableRequestContext): Promise<Response | undefined> {
+  for (const mw of middleware) {
+    const result = await mw.onRequest?.(request);
+    if (result) return result;
+  }
+  return undefined;
+}
+
+async function runErrorHooks(middleware: readonly BeamableMiddleware[], error: unknown, request: BeamableRequestContext): Promise<Response> {
+  for (const mw of middleware) {
+    const recovered = await mw.onError?.(error, request);
+    if (recovered) return recovered;
+  }
+  throw error;
+}
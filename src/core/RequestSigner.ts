@@ -0,0 +1,101 @@
+import CryptoJS from 'crypto-js';
+import { BeamableError } from './BeamableError';
+
+/**
+ * A request as it is about to be sent, after every onRequest middleware ran.
+ */
+export interface SignableRequest {
+  method: string;
+  url: string; // Absolute URL, including the query string
+  body?: string; // The serialized body, byte for byte
+}
+
+/**
+ * Authenticates server-mode requests. BeamableCore adds the returned headers to every attempt.
+ */
+export interface RequestSigner {
+  sign(request: SignableRequest): Record<string, string>;
+}
+
+/**
+ * Signs requests with the realm secret:
+ * X-BEAM-SIGNATURE = Base64(MD5(secret + pid + '1' + path and query + body)).
+ * The path and query are taken from the URL being sent, so microservice routes and query strings are
+ * covered. DELETE bodies are not part of the signature.
+ */
+export class RealmSecretSigner implements RequestSigner {
+  private secret: string;
+  private pid: string;
+
+  constructor(secret: string, pid: string) {
+    this.secret = secret;
+    this.pid = pid;
+  }
+
+  sign(request: SignableRequest): Record<string, string> {
+    const body = request.method.toUpperCase() === 'DELETE' ? undefined : request.body;
+    return { 'X-BEAM-SIGNATURE': computeRealmSignature(this.secret, this.pid, toPathAndQuery(request.url), body) };
+  }
+}
+
+/**
+ * Authenticates requests with an admin access token instead of the realm secret.
+ */
+export class AdminTokenSigner implements RequestSigner {
+  private token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  sign(): Record<string, string> {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+}
+
+/**
+ * The realm signature of one request.
+ * @param pathAndQuery The request path including its query string, e.g. '/basic/accounts/available?email=a%40b.c'
+ * @param body The serialized body as sent, if it is signed
+ */
+export function computeRealmSignature(secret: string, pid: string, pathAndQuery: string, body?: string): string {
+  const version = '1';
+  return CryptoJS.enc.Base64.stringify(CryptoJS.MD5(`${secret}${pid}${version}${pathAndQuery}${body ?? ''}`));
+}
+
+/**
+ * The signer for a configuration: the configured signer, else the secret, else the admin token.
+ * Returns null in client mode.
+ * @throws BeamableError when server mode runs in a browser or has nothing to sign with
+ */
+export function createRequestSigner(config: {
+  mode?: 'client' | 'server';
+  pid: string;
+  secret?: string;
+  adminToken?: string;
+  signer?: RequestSigner;
+}): RequestSigner | null {
+  if (config.mode !== 'server') return null;
+  if (isBrowserEnvironment()) {
+    throw new BeamableError(
+      'Server mode cannot run in a browser: it would ship the realm secret or admin token to every player. Use client mode in browser code.'
+    );
+  }
+  if (config.signer) return config.signer;
+  if (config.secret) return new RealmSecretSigner(config.secret, config.pid);
+  if (config.adminToken) return new AdminTokenSigner(config.adminToken);
+  throw new BeamableError('Server mode needs a secret, an adminToken or a signer.');
+}
+
+/**
+ * True in a browser page. Node.js (including jsdom test environments) is not a browser.
+ */
+export function isBrowserEnvironment(): boolean {
+  const g = globalThis as { window?: unknown; document?: unknown; process?: { versions?: { node?: string } } };
+  return typeof g.window !== 'undefined' && typeof g.document !== 'undefined' && !g.process?.versions?.node;
+}
+
+function toPathAndQuery(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
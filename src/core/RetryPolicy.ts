@@ -0,0 +1,69 @@
+/**
+ * Controls how BeamableCore retries transient failures (network errors and retryable status codes).
+ * Every field is optional; missing fields fall back to DEFAULT_RETRY_POLICY.
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts, including the first one
+  baseDelayMs?: number; // Delay before the first retry; doubles on every retry
+  maxDelayMs?: number; // Upper bound for a single delay, including delays taken from Retry-After
+  jitter?: boolean; // Randomize each delay between 0 and the computed backoff ("full jitter")
+  retryableMethods?: string[]; // Methods retried by default. Other methods are only retried when the request is marked idempotent
+  retryableStatuses?: number[]; // Response statuses worth retrying
+  retryOnNetworkError?: boolean; // Retry when no response was received
+  respectRetryAfter?: boolean; // Wait for the server's Retry-After header when present
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 10_000,
+  jitter: true,
+  // POST is left out on purpose: e.g. StatsModule.incrementStats must not be applied twice
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Merge a configured policy with the defaults. Passing false disables retries.
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (policy === false) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Whether a request may be retried at all.
+ * @param idempotent Explicit idempotency of the request; when undefined the method decides
+ */
+export function isRetryableRequest(policy: Required<RetryPolicy>, method: string, idempotent?: boolean): boolean {
+  if (idempotent !== undefined) return idempotent;
+  return policy.retryableMethods.includes(method.toUpperCase());
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * @returns null when the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before the given retry.
+ * @param retry 1 for the first retry, 2 for the second, ...
+ * @param retryAfterMs Delay requested by the server, if any
+ */
+export function computeRetryDelay(policy: Required<RetryPolicy>, retry: number, retryAfterMs?: number | null): number {
+  if (policy.respectRetryAfter && retryAfterMs != null) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
@@ -0,0 +1,152 @@
+/**
+ * Tokens as persisted by a TokenStorage.
+ */
+export interface StoredTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null; // Epoch milliseconds, null when unknown
+}
+
+/**
+ * Persists a player's tokens between page reloads or process restarts so a returning
+ * player resumes the same account instead of creating a new guest.
+ * Keys are built by BeamableCore from the cid, pid and context name.
+ */
+export interface TokenStorage {
+  load(key: string): Promise<StoredTokens | null>;
+  save(key: string, tokens: StoredTokens): Promise<void>;
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * Keeps tokens in memory only. Useful for tests and for sharing tokens between cores in one process.
+ */
+export class MemoryTokenStorage implements TokenStorage {
+  private entries = new Map<string, StoredTokens>();
+
+  async load(key: string): Promise<StoredTokens | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async save(key: string, tokens: StoredTokens): Promise<void> {
+    this.entries.set(key, { ...tokens });
+  }
+
+  async clear(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Stores tokens in a Web Storage area (localStorage or sessionStorage) as JSON.
+ */
+export class WebStorageTokenStorage implements TokenStorage {
+  private getStorage: () => Storage;
+
+  /**
+   * @param storage The storage area, or a function returning it (resolved lazily so the SDK can be imported outside a browser)
+   */
+  constructor(storage: Storage | (() => Storage)) {
+    this.getStorage = typeof storage === 'function' ? storage : () => storage;
+  }
+
+  async load(key: string): Promise<StoredTokens | null> {
+    const raw = this.getStorage().getItem(key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as StoredTokens;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(key: string, tokens: StoredTokens): Promise<void> {
+    this.getStorage().setItem(key, JSON.stringify(tokens));
+  }
+
+  async clear(key: string): Promise<void> {
+    this.getStorage().removeItem(key);
+  }
+}
+
+/**
+ * Persists tokens in window.localStorage; they survive page reloads and browser restarts.
+ */
+export class LocalStorageTokenStorage extends WebStorageTokenStorage {
+  constructor() {
+    super(() => globalThis.localStorage);
+  }
+}
+
+/**
+ * Persists tokens in window.sessionStorage; they survive page reloads but not closing the tab.
+ */
+export class SessionStorageTokenStorage extends WebStorageTokenStorage {
+  constructor() {
+    super(() => globalThis.sessionStorage);
+  }
+}
+
+// Pending read-modify-write per file path, shared by every FileTokenStorage writing that file
+const fileWrites = new Map<string, Promise<void>>();
+
+/**
+ * Persists tokens in a JSON file on disk (Node.js only). All keys share one file; saves and clears of the
+ * same file in this process are applied one after another, so concurrent sessions do not drop each other's keys.
+ */
+export class FileTokenStorage implements TokenStorage {
+  private filePath: string;
+
+  /**
+   * @param filePath Path of the JSON file to read and write, e.g. '.beamable/tokens.json'
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(key: string): Promise<StoredTokens | null> {
+    const entries = await this.readAll();
+    return entries[key] ?? null;
+  }
+
+  async save(key: string, tokens: StoredTokens): Promise<void> {
+    return this.serialized(async () => {
+      const entries = await this.readAll();
+      entries[key] = tokens;
+      await this.writeAll(entries);
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    return this.serialized(async () => {
+      const entries = await this.readAll();
+      if (!(key in entries)) return;
+      delete entries[key];
+      await this.writeAll(entries);
+    });
+  }
+
+  /** Run an update once the previous updates of this file settled, whether or not they failed. */
+  private serialized(update: () => Promise<void>): Promise<void> {
+    const next = (fileWrites.get(this.filePath) ?? Promise.resolve()).then(update);
+    fileWrites.set(this.filePath, next.catch(() => undefined));
+    return next;
+  }
+
+  private async readAll(): Promise<Record<string, StoredTokens>> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return {};
+      throw e;
+    }
+  }
+
+  private async writeAll(entries: Record<string, StoredTokens>): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(entries, null, 2), { encoding: 'utf8', mode: 0o600 });
+  }
+}
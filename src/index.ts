@@ -1,8 +1,114 @@
 ﻿export { configureBeamable, BeamContext } from './core/BeamContext';
 export { BeamableCore } from './core/BeamableCore';
+export type { BeamableConfig, RequestOptions, FetchJsonOptions } from './core/BeamableCore';
+export {
+  MemoryTokenStorage,
+  WebStorageTokenStorage,
+  LocalStorageTokenStorage,
+  SessionStorageTokenStorage,
+  FileTokenStorage,
+} from './core/TokenStorage';
+export type { TokenStorage, StoredTokens } from './core/TokenStorage';
+export {
+  BeamableError,
+  BeamableHttpError,
+  BeamableAuthError,
+  BeamableNetworkError,
+  BeamableTimeoutError,
+  BeamableAbortError,
+  BeamableValidationError,
+  BeamableFixtureError,
+  isBeamableError,
+  isBeamableHttpError,
+  isBeamableAuthError,
+  isBeamableNetworkError,
+  isBeamableTimeoutError,
+  isBeamableAbortError,
+  isBeamableValidationError,
+  isBeamableFixtureError,
+} from './core/BeamableError';
+export type { BeamableHttpErrorDetails, BeamableValidationIssue } from './core/BeamableError';
+export type { BeamableMiddleware, BeamableRequestContext } from './core/Middleware';
+export { FixtureRecorder, FileFixtureStore, MemoryFixtureStore, FIXTURES_ENV_VAR } from './core/Fixtures';
+export type { FixtureMode, FixtureOptions, FixtureStore, FixtureFile, FixtureInteraction } from './core/Fixtures';
+export { RealmSecretSigner, AdminTokenSigner, computeRealmSignature } from './core/RequestSigner';
+export type { RequestSigner, SignableRequest } from './core/RequestSigner';
+export { DEFAULT_RETRY_POLICY } from './core/RetryPolicy';
+export type { RetryPolicy } from './core/RetryPolicy';
 export { AuthModule } from './modules/Auth';
-export { InventoryModule } from './modules/Inventory';
+export { InventoryModule, InventoryUpdateBuilder, toInventoryProperties } from './modules/Inventory';
+export type {
+  InventoryResponse,
+  InventoryCurrency,
+  InventoryItem,
+  InventoryItemInstance,
+  InventoryProperty,
+  InventoryUpdateRequest,
+  NewInventoryItem,
+  UpdateInventoryItem,
+  DeleteInventoryItem,
+  InventoryUpdateResponse,
+  InventoryPreviewResponse,
+  InventoryCurrencyPreview,
+  InventoryTransferRequest,
+  InventoryValidationResult,
+} from './modules/Inventory';
+export { InventoryView, diffInventories } from './modules/InventoryView';
+export type {
+  InventoryViewEvents,
+  InventoryChangeSet,
+  InventoryItemEvent,
+  InventoryItemChangedEvent,
+  InventoryCurrencyChangedEvent,
+} from './modules/InventoryView';
+export { EventEmitter } from './core/EventEmitter';
+export type { EventListener } from './core/EventEmitter';
 export { StatsModule } from './modules/Stats';
 export { ContentModule } from './modules/Content';
+export type {
+  ContentCacheOptions,
+  ContentRequestOptions,
+  ContentFetchOptions,
+  ContentManifestSelector,
+  ContentVisibility,
+  ContentBundle,
+  ContentBundleMode,
+} from './modules/Content';
+export { ContentQuery } from './modules/ContentQuery';
+export { ContentWatcher } from './modules/ContentWatcher';
+export type {
+  ContentWatchOptions,
+  ContentChangeNotifier,
+  ContentChangeSet,
+  ContentEntryEvent,
+  ContentWatcherEvents,
+} from './modules/ContentWatcher';
+export { diffManifests } from './modules/ContentManifest';
+export type { ContentManifestDiff } from './modules/ContentManifest';
+export { findContentReferences } from './modules/ContentReferences';
+export { jsonSchemaValidator, validateJsonSchema } from './modules/ContentValidation';
+export type { ContentValidator, JsonSchema } from './modules/ContentValidation';
+export type {
+  ContentTypeRegistry,
+  ContentIdRegistry,
+  ContentId,
+  ContentTypeId,
+  ContentOf,
+} from './modules/ContentRegistry';
+export type { ContentGraph, ContentNode, ContentLink, ContentReference, ContentResolveOptions } from './modules/ContentReferences';
+export { LeaderboardsModule } from './modules/Leaderboards';
+export type {
+  LeaderboardStat,
+  LeaderboardEntry,
+  LeaderboardView,
+  LeaderboardViewResponse,
+  LeaderboardViewOptions,
+  LeaderboardAssignmentResponse,
+  LeaderboardMembershipResponse,
+  LeaderboardCreateRequest,
+  LeaderboardListResponse,
+  PlayerLeaderboardsResponse,
+  LeaderboardUpdateResponse,
+} from './modules/Leaderboards';
 
 export default {};
\ No newline at end of file
@@ -1,4 +1,5 @@
 import type { BeamableCore } from '../core/BeamableCore';
+import { BeamableError } from '../core/BeamableError';
 import type { BeamContext } from '../core/BeamContext';
 
 export enum AuthThirdParty {
@@ -80,6 +81,9 @@ export interface UpdateAccountResponse {
   [key: string]: any;
 }
 
+/**
+ * Authentication and account endpoints. Every method accepts an optional trailing AbortSignal to cancel the request.
+ */
 export class AuthModule {
   private core: BeamableCore;
   private context?: BeamContext;
@@ -89,20 +93,20 @@ export class AuthModule {
   }
 
   /** Guest login (anonymous user) */
-  async guestLogin(): Promise<void> {
-    const response = await this.core.request('POST', '/basic/auth/token', { grant_type: 'guest' });
-    this.core.setTokens(response.access_token, response.refresh_token);
+  async guestLogin(signal?: AbortSignal): Promise<void> {
+    const response = await this.core.request('POST', '/basic/auth/token', { grant_type: 'guest' }, { signal });
+    await this.core.setTokens(response.access_token, response.refresh_token, response.expires_in);
     this.context?._resolveOnReady();
   }
 
   /** Username or email login. Optionally impersonate a player in server mode by passing gamertag. */
-  async loginUser(usernameOrEmail: string, password: string, gamertag?: string): Promise<LoginResponse> {
+  async loginUser(usernameOrEmail: string, password: string, gamertag?: string, signal?: AbortSignal): Promise<LoginResponse> {
     const response = await this.core.request('POST', '/basic/auth/token', {
       grant_type: 'password',
       username: usernameOrEmail,
       password,
-    }, gamertag ? { gamertag } : undefined);
-    this.core.setTokens(response.access_token, response.refresh_token);
+    }, { gamertag, signal });
+    await this.core.setTokens(response.access_token, response.refresh_token, response.expires_in);
     console.log('AuthModule.loginUser: setTokens called with', response.access_token, response.refresh_token);
     console.log('AuthModule.loginUser: core tokens after setTokens', this.core.getTokens());
     this.context?._resolveOnReady();
@@ -110,134 +114,143 @@ export class AuthModule {
   }
 
   /** Register a new user with username or email. Optionally impersonate a player in server mode by passing gamertag. */
-  async registerUser(usernameOrEmail: string, password: string, gamertag?: string): Promise<RegisterUserResponse> {
+  async registerUser(usernameOrEmail: string, password: string, gamertag?: string, signal?: AbortSignal): Promise<RegisterUserResponse> {
     const response = await this.core.request('POST', '/basic/accounts/register', {
       email: usernameOrEmail,
       password,
-    }, gamertag ? { auth: true, gamertag } : { auth: true });
+    }, { auth: true, gamertag, signal });
     console.log('AuthModule.registerUser: response', response);
     console.log('AuthModule.registerUser: core tokens after register', this.core.getTokens());
     return response;
   }
 
   /** External identity login (Federated Login). Optionally impersonate a player in server mode by passing gamertag. */
-  async loginWithExternal(providerService: string, providerNamespace: string, externalToken: string, gamertag?: string): Promise<any> {
+  async loginWithExternal(providerService: string, providerNamespace: string, externalToken: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
     const response = await this.core.request('POST', '/basic/auth/token', {
       grant_type: 'external',
       provider_service: providerService,
       provider_namespace: providerNamespace,
       external_token: externalToken,
-    }, gamertag ? { gamertag } : undefined);
-    this.core.setTokens(response.access_token, response.refresh_token);
+    }, { gamertag, signal });
+    await this.core.setTokens(response.access_token, response.refresh_token, response.expires_in);
     this.context?._resolveOnReady();
     return response;
   }
 
   /** Device ID login (experimental). Optionally impersonate a player in server mode by passing gamertag. */
-  async loginWithDeviceId(deviceId: string, gamertag?: string): Promise<LoginResponse> {
+  async loginWithDeviceId(deviceId: string, gamertag?: string, signal?: AbortSignal): Promise<LoginResponse> {
     const response = await this.core.request('POST', '/basic/auth/token', {
       grant_type: 'device',
       client_id: deviceId,
-    }, gamertag ? { gamertag } : undefined);
-    this.core.setTokens(response.access_token, response.refresh_token);
+    }, { gamertag, signal });
+    await this.core.setTokens(response.access_token, response.refresh_token, response.expires_in);
     this.context?._resolveOnReady();
     return response;
   }
 
-  /** Refresh token. Optionally impersonate a player in server mode by passing gamertag. */
-  async refreshToken(refreshToken: string, gamertag?: string): Promise<LoginResponse> {
+  /**
+   * Refresh token. Uses the refresh token stored on the core when none is passed.
+   * Optionally impersonate a player in server mode by passing gamertag.
+   */
+  async refreshToken(refreshToken?: string, gamertag?: string, signal?: AbortSignal): Promise<LoginResponse> {
+    const token = refreshToken ?? this.core.getTokens().refreshToken;
+    if (!token) {
+      throw new BeamableError('AuthModule.refreshToken: no refresh token was passed and none is stored. Log in first.');
+    }
     const response = await this.core.request('POST', '/basic/auth/token', {
       grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-    }, gamertag ? { gamertag } : undefined);
-    this.core.setTokens(response.access_token, response.refresh_token);
+      refresh_token: token,
+    }, { gamertag, signal });
+    await this.core.setTokens(response.access_token, response.refresh_token, response.expires_in);
     this.context?._resolveOnReady();
     return response;
   }
 
   /** Third-party login. Optionally impersonate a player in server mode by passing gamertag. */
-  async loginWithThirdParty(thirdParty: AuthThirdParty, externalToken: string, gamertag?: string): Promise<any> {
+  async loginWithThirdParty(thirdParty: AuthThirdParty, externalToken: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
     const response = await this.core.request('POST', '/basic/auth/token', {
       grant_type: 'third_party',
       third_party: thirdParty,
       external_token: externalToken,
-    }, gamertag ? { gamertag } : undefined);
-    this.core.setTokens(response.access_token, response.refresh_token);
+    }, { gamertag, signal });
+    await this.core.setTokens(response.access_token, response.refresh_token, response.expires_in);
     this.context?._resolveOnReady();
     return response;
   }
 
   /** Check if a third-party account is available. Optionally impersonate a player in server mode by passing gamertag. */
-  async isThirdPartyAvailable(thirdParty: AuthThirdParty, externalToken: string, gamertag?: string): Promise<any> {
+  async isThirdPartyAvailable(thirdParty: AuthThirdParty, externalToken: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
     const params = new URLSearchParams({
       third_party: thirdParty,
       external_token: externalToken,
     });
-    return this.core.request('GET', `/basic/accounts/available/third-party?${params.toString()}`, undefined, gamertag ? { gamertag } : undefined);
+    return this.core.request('GET', `/basic/accounts/available/third-party?${params.toString()}`, undefined, { gamertag, signal });
   }
 
   /** Check if an email is available (not already registered). Optionally impersonate a player in server mode by passing gamertag. */
-  async isEmailAvailable(email: string, gamertag?: string): Promise<IsEmailAvailableResponse> {
+  async isEmailAvailable(email: string, gamertag?: string, signal?: AbortSignal): Promise<IsEmailAvailableResponse> {
     const params = new URLSearchParams({ email });
-    return this.core.request('GET', `/basic/accounts/available?${params.toString()}`, undefined, gamertag ? { gamertag } : undefined);
+    return this.core.request('GET', `/basic/accounts/available?${params.toString()}`, undefined, { gamertag, signal });
   }
 
   /** Initiate password update (reset) for a user. Optionally impersonate a player in server mode by passing gamertag. */
-  async passwordUpdateInit(email: string, gamertag?: string): Promise<any> {
-    return this.core.request('POST', '/basic/accounts/password-update/init', { email }, gamertag ? { gamertag } : undefined);
+  async passwordUpdateInit(email: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
+    return this.core.request('POST', '/basic/accounts/password-update/init', { email }, { gamertag, signal });
   }
 
   /** Confirm password update with code and new password. Optionally impersonate a player in server mode by passing gamertag. */
-  async passwordUpdateConfirm(email: string, code: string, newPassword: string, gamertag?: string): Promise<any> {
+  async passwordUpdateConfirm(email: string, code: string, newPassword: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
     return this.core.request('POST', '/basic/accounts/password-update/confirm', {
       email,
       code,
       password: newPassword,
-    }, gamertag ? { gamertag } : undefined);
+    }, { gamertag, signal });
   }
 
   /** Initiate email update for a user. Optionally impersonate a player in server mode by passing gamertag. */
-  async emailUpdateInit(newEmail: string, gamertag?: string): Promise<any> {
-    return this.core.request('POST', '/basic/accounts/email-update/init', { newEmail }, gamertag ? { gamertag } : undefined);
+  async emailUpdateInit(newEmail: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
+    return this.core.request('POST', '/basic/accounts/email-update/init', { newEmail }, { gamertag, signal });
   }
 
   /** Confirm email update with code and password. Optionally impersonate a player in server mode by passing gamertag. */
-  async emailUpdateConfirm(code: string, password: string, gamertag?: string): Promise<any> {
+  async emailUpdateConfirm(code: string, password: string, gamertag?: string, signal?: AbortSignal): Promise<any> {
     return this.core.request('POST', '/basic/accounts/email-update/confirm', {
       code,
       password,
-    }, gamertag ? { gamertag } : undefined);
+    }, { gamertag, signal });
   }
 
   /** Get the current account info for the logged-in user. Optionally impersonate a player in server mode by passing gamertag. */
-  async getCurrentAccount(gamertag?: string): Promise<AccountMeResponse> {
-    return this.core.request('GET', '/basic/accounts/me', undefined, gamertag ? { auth: true, gamertag } : { auth: true });
+  async getCurrentAccount(gamertag?: string, signal?: AbortSignal): Promise<AccountMeResponse> {
+    return this.core.request('GET', '/basic/accounts/me', undefined, { auth: true, gamertag, signal });
   }
 
   /** Remove a third-party association from the current account. Optionally impersonate a player in server mode by passing gamertag. */
-  async removeThirdPartyAssociation(provider: AuthThirdParty, gamertag?: string): Promise<RemoveThirdPartyAssociationResponse> {
-    return this.core.request('DELETE', '/basic/accounts/me/third-party', { provider }, gamertag ? { gamertag } : undefined);
+  async removeThirdPartyAssociation(provider: AuthThirdParty, gamertag?: string, signal?: AbortSignal): Promise<RemoveThirdPartyAssociationResponse> {
+    return this.core.request('DELETE', '/basic/accounts/me/third-party', { provider }, { gamertag, signal });
   }
 
   /** Update the current account with new properties or credentials. Optionally impersonate a player in server mode by passing gamertag. */
-  async updateAccount(options: UpdateAccountOptions, gamertag?: string): Promise<UpdateAccountResponse> {
-    return this.core.request('PUT', '/basic/accounts/me', options, gamertag ? { auth: true, gamertag } : { auth: true });
+  async updateAccount(options: UpdateAccountOptions, gamertag?: string, signal?: AbortSignal): Promise<UpdateAccountResponse> {
+    return this.core.request('PUT', '/basic/accounts/me', options, { auth: true, gamertag, signal });
   }
 
   /**
    * Register a third-party authentication credential to the current account.
    * @param thirdParty The third-party provider (e.g., 'google', 'apple', etc.)
    * @param token The auth token from the third-party provider
+   * @param signal Optionally cancel the request
    */
-  async registerThirdParty(thirdParty: string, token: string): Promise<UpdateAccountResponse> {
-    return this.updateAccount({ thirdParty, token });
+  async registerThirdParty(thirdParty: string, token: string, signal?: AbortSignal): Promise<UpdateAccountResponse> {
+    return this.updateAccount({ thirdParty, token }, undefined, signal);
   }
 
   /**
    * Register a device ID authentication credential to the current account.
    * @param deviceId The device ID to associate
+   * @param signal Optionally cancel the request
    */
-  async registerDevice(deviceId: string): Promise<UpdateAccountResponse> {
-    return this.updateAccount({ deviceId });
+  async registerDevice(deviceId: string, signal?: AbortSignal): Promise<UpdateAccountResponse> {
+    return this.updateAccount({ deviceId }, undefined, signal);
   }
 } 
\ No newline at end of file
@@ -1,4 +1,11 @@
 import type { BeamableCore } from '../core/BeamableCore';
+import { BeamableError, BeamableAbortError, BeamableValidationError } from '../core/BeamableError';
+import { resolveContentGraph, type ContentGraph, type ContentResolveOptions } from './ContentReferences';
+import { ContentQuery } from './ContentQuery';
+import { entryChecksum, getEntryId, getManifestEntries } from './ContentManifest';
+import { ContentWatcher, type ContentWatchOptions } from './ContentWatcher';
+import type { CheckedContentId, CheckedContentType, ContentOf } from './ContentRegistry';
+import type { ContentValidator } from './ContentValidation';
 
 /**
  * Response from GET /basic/content/manifest/public
@@ -23,84 +30,448 @@ export interface ContentManifestEntry {
   [key: string]: any;
 }
 
+/**
+ * public: the manifest clients read. private: content only server code may read (server mode only).
+ */
+export type ContentVisibility = 'public' | 'private';
+
+/**
+ * Which manifest a content call reads. Each manifest is cached separately.
+ */
+export interface ContentManifestSelector {
+  manifestId?: string; // e.g. a per-season manifest. Defaults to ContentCacheOptions.manifestId, then the realm's 'global' manifest
+  visibility?: ContentVisibility; // Defaults to ContentCacheOptions.visibility, then 'public'
+}
+
+/**
+ * Options accepted by the content lookup methods.
+ */
+export interface ContentRequestOptions extends ContentManifestSelector {
+  signal?: AbortSignal; // Cancels the manifest and content downloads
+}
+
+/**
+ * Options accepted by getContent and getContentByType.
+ */
+export interface ContentFetchOptions extends ContentRequestOptions {
+  validate?: ContentValidator; // Checks each downloaded object; failures throw a BeamableValidationError naming the field
+}
+
+/**
+ * How ContentModule uses a loaded ContentBundle.
+ * - 'fallback': use the live manifest and CDN when reachable, and the bundle when they fail
+ * - 'readonly': serve only the bundle and never go to the network
+ */
+export type ContentBundleMode = 'fallback' | 'readonly';
+
+/**
+ * A full content snapshot: the manifest plus every entry's JSON. Created by exportBundle and
+ * `beamable exportContent`; plain JSON, so it can be stored in a file or shipped with a build.
+ */
+export interface ContentBundle {
+  formatVersion: 1;
+  createdAt: string; // ISO timestamp of the export
+  manifestId?: string; // The manifest the bundle was exported from; loadBundle serves it for the same manifest
+  visibility?: ContentVisibility;
+  manifest: ContentManifestResponse;
+  content: Record<string, any>; // Entry JSON keyed by content id
+}
+
+/**
+ * Caching behaviour of ContentModule, set through BeamableConfig.content.
+ */
+export interface ContentCacheOptions extends ContentManifestSelector {
+  manifestTtlMs?: number; // How long a fetched manifest is reused before checking for a new one (default: 60000). 0 checks on every lookup.
+  bundle?: ContentBundle; // Snapshot to start from, see loadBundle
+  bundleMode?: ContentBundleMode; // Default: 'fallback'
+}
+
+const DEFAULT_MANIFEST_TTL_MS = 60_000;
+const DEFAULT_MANIFEST_ID = 'global';
+const EXPORT_CONCURRENCY = 8;
+const PUBLIC_MANIFEST_PATH = '/basic/content/manifest/public/json';
+const PRIVATE_MANIFEST_PATH = '/basic/content/manifest/private/json';
+
+interface CachedManifest {
+  response: ContentManifestResponse;
+  checksum: string | undefined;
+  fetchedAt: number;
+}
+
+interface CachedEntry {
+  checksum: string;
+  content: Promise<any>;
+}
+
+/**
+ * Cache state of one manifest.
+ */
+interface ManifestCache {
+  manifestId: string | undefined; // undefined requests the realm default without an id parameter
+  visibility: ContentVisibility;
+  manifest: CachedManifest | null;
+  request: Promise<ContentManifestResponse> | null;
+  entries: Map<string, CachedEntry>;
+  bundle: ContentBundle | null;
+  bundleMode: ContentBundleMode;
+}
+
+/**
+ * Content lookups. Each manifest is cached for manifestTtlMs and content JSON is cached per entry until the
+ * entry's checksum changes, so repeated lookups only download what was republished.
+ */
 export class ContentModule {
   private core: BeamableCore;
-  constructor(core: BeamableCore) {
+  private manifestTtlMs: number;
+  private defaults: ContentManifestSelector;
+  private caches = new Map<string, ManifestCache>();
+
+  /**
+   * @param core The core used for manifest and CDN requests
+   * @param options Cache settings and the default manifest (defaults to BeamableConfig.content when created by BeamContext)
+   */
+  constructor(core: BeamableCore, options: ContentCacheOptions = {}) {
     this.core = core;
+    this.manifestTtlMs = options.manifestTtlMs ?? DEFAULT_MANIFEST_TTL_MS;
+    this.defaults = { manifestId: options.manifestId, visibility: options.visibility };
+    if (options.bundle) this.loadBundle(options.bundle, options.bundleMode);
   }
 
   /**
    * Fetch the public content manifest
    * @see https://docs.beamable.com/reference/get_basic-content-manifest-public
    * @param gamertag Optionally impersonate a player in server mode by passing gamertag
+   * @param signal Optionally cancel the request
+   * @param manifestId Optionally fetch a manifest other than the realm's 'global' one
    */
-  async getPublicManifest(gamertag?: string): Promise<ContentManifestResponse> {
-    return this.core.request('GET', '/basic/content/manifest/public/json', undefined, gamertag ? { gamertag } : undefined);
+  async getPublicManifest(gamertag?: string, signal?: AbortSignal, manifestId?: string): Promise<ContentManifestResponse> {
+    return this.core.request('GET', withManifestId(PUBLIC_MANIFEST_PATH, manifestId), undefined, { gamertag, signal });
+  }
+
+  /**
+   * Fetch a private content manifest: content only server code may read. Server mode only; the request is
+   * signed with the realm secret.
+   * @param manifestId Optionally fetch a manifest other than the realm's 'global' one
+   * @param signal Optionally cancel the request
+   * @throws BeamableError in client mode, without sending the request
+   */
+  async getPrivateManifest(manifestId?: string, signal?: AbortSignal): Promise<ContentManifestResponse> {
+    if (this.core.mode !== 'server') {
+      throw new BeamableError('Private content manifests need server mode: clients may only read public content.');
+    }
+    return this.core.request('GET', withManifestId(PRIVATE_MANIFEST_PATH, manifestId), undefined, { signal });
   }
 
   /**
-   * Fetch content by ID and return it as the specified type
+   * Fetch content by ID. Once `beamable generateTypes` has run, the return type is inferred from the id and
+   * misspelled literal ids are compile errors; otherwise pass the type as T.
    * @param contentId The ID of the content to fetch
-   * @returns The content object typed as T
+   * @param options Optionally pass an AbortSignal, the manifest to read and a validator
+   * @returns The content object, typed from the registry or as T
+   * @throws BeamableValidationError when options.validate reports issues
    * @example
-   * const abilityMap = await content.getContent<AbilityMaps>('AbilityMaps.VitalityAura');
+   * const abilityMap = await content.getContent('AbilityMaps.VitalityAura'); // AbilityMaps, when generated
    * const minion = await content.getContent<Minions>('Minions.GoblinBlue');
+   * const pass = await content.getContent('items.SeasonPass', { manifestId: 'season-3' });
+   * const checked = await content.getContent('Minions.GoblinBlue', { validate: jsonSchemaValidator(minionsSchema) });
    */
-  async getContent<T = any>(contentId: string): Promise<T> {
+  getContent<Id extends string>(contentId: CheckedContentId<Id>, options?: ContentFetchOptions): Promise<ContentOf<Id>>;
+  getContent<T, Id extends string = string>(contentId: CheckedContentId<Id>, options?: ContentFetchOptions): Promise<T>;
+  async getContent(contentId: string, options: ContentFetchOptions = {}): Promise<any> {
+    const cache = this.cacheFor(options);
     // First get the manifest to find the content URI
-    const manifest = await this.getPublicManifest();
-    const entries = manifest.manifest?.entries || manifest.entries || [];
+    const manifest = await this.getManifest(cache, options.signal);
+    const entries = getManifestEntries(manifest);
     
     // Find the entry with matching contentId
     const entry = entries.find(e => e.contentId === contentId || e.id === contentId);
     if (!entry) {
-      throw new Error(`Content not found: ${contentId}`);
+      throw new BeamableError(`Content not found: ${contentId}`);
     }
 
-    // Fetch the content from the URI
-    const response = await fetch(entry.uri);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch content ${contentId}: ${response.statusText}`);
-    }
-
-    return response.json() as T;
+    // Fetch the content from the URI, unless this version is cached
+    const content = await this.loadEntry(cache, entry, options.signal);
+    if (options.validate) validateContent(contentId, content, options.validate);
+    return content;
   }
 
   /**
-   * Get all content of a specific type
+   * Get all content of a specific type. Like getContent, the element type is inferred from the generated
+   * registry when there is one.
    * @param contentType The type of content to fetch (e.g., 'AbilityMaps', 'Minions')
+   * @param options Optionally pass an AbortSignal, the manifest to read and a validator
    * @returns Array of content objects of the specified type
+   * @throws BeamableValidationError when options.validate reports issues for any object
    * @example
-   * const allAbilityMaps = await content.getContentByType<AbilityMaps>('AbilityMaps');
+   * const allAbilityMaps = await content.getContentByType('AbilityMaps'); // AbilityMaps[], when generated
    * const allMinions = await content.getContentByType<Minions>('Minions');
    */
-  async getContentByType<T = any>(contentType: string): Promise<T[]> {
-    const manifest = await this.getPublicManifest();
-    const entries = manifest.manifest?.entries || manifest.entries || [];
-    
-    // Filter entries by content type
-    const typeEntries = entries.filter(e => {
-      const contentId = e.contentId || e.id || '';
-      return contentId.startsWith(`${contentType}.`);
+  getContentByType<Type extends string>(contentType: CheckedContentType<Type>, options?: ContentFetchOptions): Promise<ContentOf<Type>[]>;
+  getContentByType<T, Type extends string = string>(contentType: CheckedContentType<Type>, options?: ContentFetchOptions): Promise<T[]>;
+  async getContentByType(contentType: string, options: ContentFetchOptions = {}): Promise<any[]> {
+    const contents = await this.query(options).ofType(contentType).fetch(options);
+    const { validate } = options;
+    if (validate) contents.forEach((content) => validateContent(content?.id ?? contentType, content, validate));
+    return contents;
+  }
+
+  /**
+   * Start a query over the manifest: filter by type prefix, tags and id pattern before download, then by
+   * predicates on the downloaded content, with pagination and bounded download concurrency.
+   * @param manifest Optionally the manifest to query
+   * @returns A ContentQuery; call fetch() to run it
+   * @example
+   * const weekly = await content.query<Items>().ofType('items.Quest').withTags('weekly').limit(10).fetch();
+   */
+  query<T = any>(manifest: ContentManifestSelector = {}): ContentQuery<T> {
+    const cache = this.cacheFor(manifest);
+    return new ContentQuery<T>({
+      getEntries: async (signal) => getManifestEntries(await this.getManifest(cache, signal)),
+      load: (entry, signal) => this.loadEntry(cache, entry, signal),
     });
+  }
+
+  /**
+   * Fetch content together with the content it references ({ $link } / { $links } fields and strings that
+   * are ids in the manifest). Cycles are detected, and each object is loaded once.
+   * @param contentId The ID of the root content
+   * @param options depth (default: 1), eager (default: true), the manifest to read and an optional AbortSignal
+   * @returns The graph of loaded content, typed as T at the root
+   * @example
+   * const graph = await content.resolve<AbilityMaps>('AbilityMaps.VitalityAura', { depth: 2 });
+   * const minion = graph.root.get<Minions>('properties.summon.data.minion')?.content;
+   */
+  async resolve<T = any>(contentId: string, options: ContentResolveOptions & ContentManifestSelector = {}): Promise<ContentGraph<T>> {
+    const cache = this.cacheFor(options);
+    const manifest = await this.getManifest(cache, options.signal);
+    const contentIds = new Set(getManifestEntries(manifest).map(getEntryId));
+    const selector = { manifestId: options.manifestId, visibility: options.visibility };
+    return resolveContentGraph<T>(contentId, contentIds, (id, signal) => this.getContent(id, { ...selector, signal }), options);
+  }
+
+  /**
+   * Fetch the manifest now, bypassing the TTL. Cached content whose entry checksum changed, or which was
+   * removed from the manifest, is dropped; everything else stays cached.
+   * @param signal Optionally cancel waiting for the manifest
+   * @param manifest Optionally the manifest to refresh
+   * @returns The new manifest
+   */
+  async refreshManifest(signal?: AbortSignal, manifest: ContentManifestSelector = {}): Promise<ContentManifestResponse> {
+    return this.fetchManifest(this.cacheFor(manifest), signal);
+  }
+
+  /**
+   * Watch the manifest for published changes and emit added/changed/removed events with the new content.
+   * Polls every intervalMs (default: 30 seconds) and whenever the optional notifier fires.
+   * @param options Polling interval, notifier, type filter, the manifest to watch and whether to download changed content
+   * @returns A started ContentWatcher; call stop() to end it
+   * @example
+   * const watcher = content.watch<Items>({ types: ['items'] });
+   * watcher.on('changed', ({ contentId, content }) => console.log('republished', contentId, content));
+   */
+  watch<T = any>(options: ContentWatchOptions & ContentManifestSelector = {}): ContentWatcher<T> {
+    const cache = this.cacheFor(options);
+    const watcher = new ContentWatcher<T>(
+      {
+        current: () => cache.manifest?.response ?? null,
+        refresh: (signal) => this.fetchManifest(cache, signal),
+        load: (entry, signal) => this.loadEntry(cache, entry, signal),
+      },
+      options
+    );
+    return watcher.start();
+  }
 
-    if (typeEntries.length === 0) {
-      return [];
+  /**
+   * Drop the cached manifests and all cached content.
+   */
+  clearCache(): void {
+    for (const cache of this.caches.values()) {
+      cache.manifest = null;
+      cache.entries.clear();
+      if (cache.bundle) seedFromBundle(cache, cache.bundle);
     }
+  }
 
-    // Fetch all content of this type
-    const contentPromises = typeEntries.map(async (entry) => {
-      const response = await fetch(entry.uri);
-      if (!response.ok) {
-        console.warn(`Failed to fetch content ${entry.contentId || entry.id}: ${response.statusText}`);
-        return null;
-      }
-      return response.json() as T;
+  /**
+   * Export a full content snapshot: the current manifest plus every entry's JSON.
+   * Fails if any entry cannot be downloaded, so a bundle is always complete.
+   * @param options Optionally pass an AbortSignal and the manifest to export
+   * @example
+   * const bundle = await context.Content.exportBundle();
+   * fs.writeFileSync('content-bundle.json', JSON.stringify(bundle));
+   */
+  async exportBundle(options: ContentRequestOptions = {}): Promise<ContentBundle> {
+    const cache = this.cacheFor(options);
+    const manifest = await this.fetchManifest(cache, options.signal);
+    const content: Record<string, any> = {};
+    await mapWithConcurrency(getManifestEntries(manifest), EXPORT_CONCURRENCY, async (entry) => {
+      content[getEntryId(entry)] = await this.loadEntry(cache, entry, options.signal);
     });
+    return {
+      formatVersion: 1,
+      createdAt: new Date().toISOString(),
+      ...(cache.manifestId !== undefined ? { manifestId: cache.manifestId } : {}),
+      visibility: cache.visibility,
+      manifest,
+      content,
+    };
+  }
+
+  /**
+   * Use a bundle from exportBundle as an offline content source for the manifest it was exported from.
+   * Its entries are cached immediately, so lookups only download entries whose checksum differs from the
+   * live manifest.
+   * @param bundle The snapshot to load
+   * @param mode 'fallback' (default) uses the bundle when the network fails; 'readonly' never goes to the network
+   */
+  loadBundle(bundle: ContentBundle, mode: ContentBundleMode = 'fallback'): void {
+    if (bundle?.formatVersion !== 1 || !bundle.manifest || !bundle.content) {
+      throw new BeamableError('Invalid content bundle: expected the output of ContentModule.exportBundle');
+    }
+    const cache = this.cacheFor({ manifestId: bundle.manifestId, visibility: bundle.visibility });
+    cache.bundle = bundle;
+    cache.bundleMode = mode;
+    seedFromBundle(cache, bundle);
+    if (mode === 'readonly') storeManifest(cache, bundle.manifest);
+  }
+
+  private cacheFor(selector: ContentManifestSelector): ManifestCache {
+    const manifestId = selector.manifestId ?? this.defaults.manifestId;
+    const visibility = selector.visibility ?? this.defaults.visibility ?? 'public';
+    const key = `${visibility}/${manifestId ?? DEFAULT_MANIFEST_ID}`;
+    let cache = this.caches.get(key);
+    if (!cache) {
+      cache = { manifestId, visibility, manifest: null, request: null, entries: new Map(), bundle: null, bundleMode: 'fallback' };
+      this.caches.set(key, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * The cached manifest while it is younger than the TTL, otherwise a fresh one.
+   */
+  private async getManifest(cache: ManifestCache, signal?: AbortSignal): Promise<ContentManifestResponse> {
+    if (cache.manifest && Date.now() - cache.manifest.fetchedAt < this.manifestTtlMs) {
+      return cache.manifest.response;
+    }
+    return this.fetchManifest(cache, signal);
+  }
+
+  private async fetchManifest(cache: ManifestCache, signal?: AbortSignal): Promise<ContentManifestResponse> {
+    if (cache.bundle && cache.bundleMode === 'readonly') {
+      storeManifest(cache, cache.bundle.manifest);
+      return cache.bundle.manifest;
+    }
+    if (!cache.request) {
+      // Shared by concurrent callers, so it is not tied to any one caller's signal
+      const request =
+        cache.visibility === 'private' ? this.getPrivateManifest(cache.manifestId) : this.getPublicManifest(undefined, undefined, cache.manifestId);
+      cache.request = request
+        .then((response) => {
+          storeManifest(cache, response);
+          return response;
+        })
+        .catch((error) => {
+          if (!cache.bundle) throw error;
+          // Prefer the last live manifest over the (possibly older) bundled one
+          const fallback = cache.manifest?.response ?? cache.bundle.manifest;
+          console.warn(`ContentModule: manifest unavailable, using the ${cache.manifest ? 'cached' : 'bundled'} manifest: ${(error as Error).message}`);
+          storeManifest(cache, fallback);
+          return fallback;
+        })
+        .finally(() => {
+          cache.request = null;
+        });
+    }
+    return abortable(cache.request, signal, cache.visibility === 'private' ? PRIVATE_MANIFEST_PATH : PUBLIC_MANIFEST_PATH);
+  }
 
-    const results = await Promise.all(contentPromises);
-    return results.filter(Boolean) as T[];
+  /**
+   * Download an entry's JSON, reusing the cached copy (or in-flight download) for the same checksum.
+   * Falls back to the bundled version of the entry if the download fails.
+   */
+  private loadEntry<T>(cache: ManifestCache, entry: ContentManifestEntry, signal?: AbortSignal): Promise<T> {
+    const id = getEntryId(entry);
+    const checksum = entryChecksum(entry);
+    let cached = cache.entries.get(id);
+    if (!cached || cached.checksum !== checksum) {
+      if (cache.bundle && cache.bundleMode === 'readonly') {
+        return Promise.reject(new BeamableError(`Content not in the offline bundle: ${id}`));
+      }
+      const download = this.core.fetchJson<T>(entry.uri);
+      const stored: CachedEntry = { checksum, content: download.catch((error) => getBundledEntry(cache, id, error)) };
+      cached = stored;
+      cache.entries.set(id, stored);
+      // Don't cache failures or bundled stand-ins, so the next lookup tries the network again
+      download.catch(() => {
+        if (cache.entries.get(id) === stored) cache.entries.delete(id);
+      });
+    }
+    return abortable(cached.content, signal, entry.uri);
   }
 
   // TODO: Add content methods
+}
+
+function withManifestId(path: string, manifestId?: string): string {
+  return manifestId === undefined ? path : `${path}?${new URLSearchParams({ id: manifestId }).toString()}`;
+}
+
+function validateContent(contentId: string, content: unknown, validate: ContentValidator): void {
+  const issues = validate(content);
+  if (issues.length) throw new BeamableValidationError(contentId, issues);
+}
+
+function storeManifest(cache: ManifestCache, response: ContentManifestResponse) {
+  const checksum = response.manifest?.checksum ?? response.checksum;
+  const previous = cache.manifest;
+  cache.manifest = { response, checksum, fetchedAt: Date.now() };
+  if (previous && checksum !== undefined && previous.checksum === checksum) return;
+
+  // The manifest changed: keep only the entries whose checksum is still current
+  const current = new Map(getManifestEntries(response).map((e) => [getEntryId(e), entryChecksum(e)]));
+  for (const [id, cached] of cache.entries) {
+    if (current.get(id) !== cached.checksum) cache.entries.delete(id);
+  }
+}
+
+function getBundledEntry(cache: ManifestCache, id: string, error: unknown): any {
+  if (!cache.bundle || !(id in cache.bundle.content)) throw error;
+  console.warn(`ContentModule: failed to download ${id}, using the bundled version: ${(error as Error).message}`);
+  return cache.bundle.content[id];
+}
+
+function seedFromBundle(cache: ManifestCache, bundle: ContentBundle) {
+  for (const entry of getManifestEntries(bundle.manifest)) {
+    const id = getEntryId(entry);
+    if (id in bundle.content && !cache.entries.has(id)) {
+      cache.entries.set(id, { checksum: entryChecksum(entry), content: Promise.resolve(bundle.content[id]) });
+    }
+  }
+}
+
+/**
+ * Run fn for every item, with at most limit calls in flight.
+ */
+async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Wait for a shared promise, but stop waiting (without cancelling it for others) when signal aborts.
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, path: string): Promise<T> {
+  if (!signal) return promise;
+  const abortError = () => new BeamableAbortError(`GET ${path} was aborted`, { method: 'GET', path, reason: signal.reason });
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 } 
\ No newline at end of file
@@ -0,0 +1,46 @@
+import type { ContentManifestEntry, ContentManifestResponse } from './Content';
+
+/**
+ * Differences between two manifests, by content id and entry checksum.
+ */
+export interface ContentManifestDiff {
+  added: ContentManifestEntry[];
+  changed: ContentManifestEntry[]; // The new entries of content whose checksum changed
+  removed: ContentManifestEntry[];
+}
+
+/**
+ * The entries of a manifest, wherever the endpoint put them.
+ */
+export function getManifestEntries(manifest: ContentManifestResponse): ContentManifestEntry[] {
+  return manifest.manifest?.entries || manifest.entries || [];
+}
+
+export function getEntryId(entry: ContentManifestEntry): string {
+  return entry.contentId || entry.id;
+}
+
+/**
+ * What identifies one version of an entry: its checksum, falling back to version and uri.
+ */
+export function entryChecksum(entry: ContentManifestEntry): string {
+  return String(entry.checksum ?? entry.version ?? entry.uri);
+}
+
+/**
+ * Compare two manifests entry by entry.
+ */
+export function diffManifests(previous: ContentManifestResponse | null, next: ContentManifestResponse): ContentManifestDiff {
+  const before = new Map((previous ? getManifestEntries(previous) : []).map((e) => [getEntryId(e), e]));
+  const after = new Map(getManifestEntries(next).map((e) => [getEntryId(e), e]));
+  const diff: ContentManifestDiff = { added: [], changed: [], removed: [] };
+  for (const [id, entry] of after) {
+    const old = before.get(id);
+    if (!old) diff.added.push(entry);
+    else if (entryChecksum(old) !== entryChecksum(entry)) diff.changed.push(entry);
+  }
+  for (const [id, entry] of before) {
+    if (!after.has(id)) diff.removed.push(entry);
+  }
+  return diff;
+}
@@ -0,0 +1,175 @@
+import type { ContentManifestEntry, ContentRequestOptions } from './Content';
+
+/**
+ * What a ContentQuery reads from: the manifest entries, and a loader for one entry's JSON.
+ * @internal
+ */
+export interface ContentQuerySource {
+  getEntries(signal?: AbortSignal): Promise<ContentManifestEntry[]>;
+  load(entry: ContentManifestEntry, signal?: AbortSignal): Promise<any>;
+}
+
+const DEFAULT_QUERY_CONCURRENCY = 8;
+
+/**
+ * Fluent query over content. Manifest filters (type, tags, id pattern) run before anything is downloaded;
+ * content predicates run on the downloaded JSON. Downloads run with bounded concurrency and stop as soon as
+ * the requested page is complete.
+ *
+ * @example
+ * const quests = await context.Content.query<Items>()
+ *   .ofType('items.Quest')
+ *   .withTags('weekly')
+ *   .where((item) => item.properties.reward.data > 100)
+ *   .limit(20)
+ *   .fetch();
+ */
+export class ContentQuery<T = any> {
+  private source: ContentQuerySource;
+  private types: string[] = [];
+  private requiredTags: string[] = [];
+  private anyTags: string[] = [];
+  private patterns: RegExp[] = [];
+  private entryPredicates: Array<(entry: ContentManifestEntry) => boolean> = [];
+  private contentPredicates: Array<(content: T) => boolean> = [];
+  private offset = 0;
+  private max = Infinity;
+  private parallel = DEFAULT_QUERY_CONCURRENCY;
+
+  constructor(source: ContentQuerySource) {
+    this.source = source;
+  }
+
+  /**
+   * Only content whose id is under one of these type prefixes, e.g. 'items' or 'items.Quest'.
+   * Calling ofType several times matches any of the types.
+   */
+  ofType(...types: string[]): this {
+    this.types.push(...types);
+    return this;
+  }
+
+  /** Only content that has all of these tags. */
+  withTags(...tags: string[]): this {
+    this.requiredTags.push(...tags);
+    return this;
+  }
+
+  /** Only content that has at least one of these tags. */
+  withAnyTag(...tags: string[]): this {
+    this.anyTags.push(...tags);
+    return this;
+  }
+
+  /**
+   * Only content whose id matches. In string patterns '*' matches within one id segment and '**' across
+   * segments, e.g. 'items.*.Gold' or 'Minions.**'.
+   */
+  matching(pattern: string | RegExp): this {
+    this.patterns.push(typeof pattern === 'string' ? globToRegExp(pattern) : pattern);
+    return this;
+  }
+
+  /** Filter manifest entries before download. */
+  whereEntry(predicate: (entry: ContentManifestEntry) => boolean): this {
+    this.entryPredicates.push(predicate);
+    return this;
+  }
+
+  /** Filter downloaded content. */
+  where(predicate: (content: T) => boolean): this {
+    this.contentPredicates.push(predicate);
+    return this;
+  }
+
+  /** Skip the first n matches. */
+  skip(n: number): this {
+    this.offset = n;
+    return this;
+  }
+
+  /** Return at most n matches. */
+  limit(n: number): this {
+    this.max = n;
+    return this;
+  }
+
+  /**
+   * Return one page of matches.
+   * @param page The page number, starting at 0
+   * @param size Matches per page
+   */
+  page(page: number, size: number): this {
+    return this.skip(page * size).limit(size);
+  }
+
+  /** How many downloads may run at once (default: 8). */
+  concurrency(n: number): this {
+    this.parallel = Math.max(1, n);
+    return this;
+  }
+
+  /**
+   * The manifest entries that pass the manifest filters, without downloading anything.
+   * Pagination applies here too unless there are content predicates.
+   */
+  async entries(options: Pick<ContentRequestOptions, 'signal'> = {}): Promise<ContentManifestEntry[]> {
+    const entries = (await this.source.getEntries(options.signal)).filter((entry) => this.matchesEntry(entry));
+    return this.contentPredicates.length ? entries : entries.slice(this.offset, this.offset + this.max);
+  }
+
+  /**
+   * Download the matching content. Entries that fail to download are logged and skipped.
+   */
+  async fetch(options: Pick<ContentRequestOptions, 'signal'> = {}): Promise<T[]> {
+    const { signal } = options;
+    const entries = (await this.source.getEntries(signal)).filter((entry) => this.matchesEntry(entry));
+    // Without content predicates the page can be cut from the manifest entries before download
+    const candidates = this.contentPredicates.length ? entries : entries.slice(this.offset, this.offset + this.max);
+    const skip = this.contentPredicates.length ? this.offset : 0;
+    const needed = skip + this.max;
+
+    const matches: T[] = [];
+    for (let i = 0; i < candidates.length && matches.length < needed; i += this.parallel) {
+      const batch = await Promise.all(candidates.slice(i, i + this.parallel).map((entry) => this.download(entry, signal)));
+      for (const content of batch) {
+        if (content !== null && this.contentPredicates.every((p) => p(content))) matches.push(content);
+      }
+    }
+    return matches.slice(skip, needed);
+  }
+
+  /** The first match, or undefined. */
+  async first(options: Pick<ContentRequestOptions, 'signal'> = {}): Promise<T | undefined> {
+    const [content] = await this.limit(1).fetch(options);
+    return content;
+  }
+
+  private matchesEntry(entry: ContentManifestEntry): boolean {
+    const id: string = entry.contentId || entry.id || '';
+    const tags: string[] = entry.tags ?? [];
+    if (this.types.length && !this.types.some((type) => id.startsWith(`${type}.`))) return false;
+    if (!this.requiredTags.every((tag) => tags.includes(tag))) return false;
+    if (this.anyTags.length && !this.anyTags.some((tag) => tags.includes(tag))) return false;
+    if (!this.patterns.every((pattern) => pattern.test(id))) return false;
+    return this.entryPredicates.every((predicate) => predicate(entry));
+  }
+
+  private async download(entry: ContentManifestEntry, signal?: AbortSignal): Promise<T | null> {
+    try {
+      return await this.source.load(entry, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to fetch content ${entry.contentId || entry.id}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map((part) => part.split('*').map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,166 @@
+/**
+ * A reference from one content object to another, found by findContentReferences.
+ */
+export interface ContentReference {
+  path: string; // Where the reference was found, e.g. 'properties.minion.$link' or 'properties.waves.data[0].minion'
+  contentId: string;
+}
+
+/**
+ * A reference in a resolved content graph.
+ */
+export interface ContentLink<T = any> {
+  path: string;
+  contentId: string;
+  node: ContentNode<T> | null; // Null until loaded: lazy resolution, beyond the depth limit, or missing
+  cycle: boolean; // The target is the node itself or one of the nodes it was reached through
+  missing: boolean; // The target is not in the manifest, so it can never be loaded
+  load(signal?: AbortSignal): Promise<ContentNode<T>>;
+}
+
+/**
+ * One content object in a resolved graph.
+ */
+export interface ContentNode<T = any> {
+  id: string;
+  content: T;
+  depth: number; // Distance from the root, which has depth 0
+  links: ContentLink[];
+  /**
+   * The loaded node a reference points to. A path without the trailing '.$link' also matches.
+   * @example graph.root.get<Minions>('properties.minion')?.content
+   */
+  get<U = any>(path: string): ContentNode<U> | undefined;
+}
+
+/**
+ * The result of ContentModule.resolve: the root node and every node loaded so far, by content id.
+ * Nodes are shared, so each content object appears once even when referenced several times.
+ */
+export interface ContentGraph<T = any> {
+  root: ContentNode<T>;
+  nodes: Map<string, ContentNode>;
+}
+
+export interface ContentResolveOptions {
+  depth?: number; // How many levels of references to load eagerly (default: 1). Use Infinity for the whole graph
+  eager?: boolean; // Load references up to depth before returning (default: true). When false, call link.load()
+  signal?: AbortSignal;
+}
+
+/**
+ * Find the content references in a content object. Explicit references ({ $link } and { $links }) are
+ * always returned; plain strings are returned when isContentId accepts them, e.g. ids in the manifest.
+ */
+export function findContentReferences(content: any, isContentId: (value: string) => boolean = () => false): ContentReference[] {
+  const references: ContentReference[] = [];
+  const visit = (value: any, path: string) => {
+    if (typeof value === 'string') {
+      if (isContentId(value)) references.push({ path, contentId: value });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => visit(item, `${path}[${i}]`));
+    } else if (value && typeof value === 'object') {
+      if (typeof value.$link === 'string') {
+        references.push({ path: joinPath(path, '$link'), contentId: value.$link });
+      }
+      if (Array.isArray(value.$links)) {
+        value.$links.forEach((id: unknown, i: number) => {
+          if (typeof id === 'string') references.push({ path: `${joinPath(path, '$links')}[${i}]`, contentId: id });
+        });
+      }
+      for (const [key, child] of Object.entries(value)) {
+        if (key === '$link' || key === '$links' || (path === '' && key === 'id')) continue;
+        visit(child, joinPath(path, key));
+      }
+    }
+  };
+  visit(content, '');
+  return references;
+}
+
+/**
+ * Load a content object and the objects it references, breadth first.
+ * @param rootId The content to start from
+ * @param contentIds Every id in the manifest, used to detect references and missing targets
+ * @param load Loads one content object
+ */
+export async function resolveContentGraph<T = any>(
+  rootId: string,
+  contentIds: ReadonlySet<string>,
+  load: (contentId: string, signal?: AbortSignal) => Promise<any>,
+  options: ContentResolveOptions = {}
+): Promise<ContentGraph<T>> {
+  const maxDepth = options.depth ?? 1;
+  const eager = options.eager ?? true;
+  const nodes = new Map<string, ContentNode>();
+  const pending = new Map<string, Promise<ContentNode>>();
+
+  // Resolves once the node's content is loaded; never waits for other nodes, so cycles cannot deadlock
+  const createNode = (id: string, depth: number, ancestors: ReadonlySet<string>, signal?: AbortSignal): Promise<ContentNode> => {
+    let promise = pending.get(id);
+    if (!promise) {
+      promise = load(id, signal).then((content) => {
+        const node: ContentNode = {
+          id,
+          content,
+          depth,
+          links: [],
+          get(path) {
+            return node.links.find((l) => l.path === path || l.path === `${path}.$link`)?.node ?? undefined;
+          },
+        };
+        const childAncestors = new Set(ancestors).add(id);
+        node.links = findContentReferences(content, (value) => contentIds.has(value)).map((ref) =>
+          createLink(ref, node, childAncestors)
+        );
+        nodes.set(id, node);
+        return node;
+      });
+      pending.set(id, promise);
+      promise.catch(() => pending.delete(id));
+    }
+    return promise;
+  };
+
+  const createLink = (ref: ContentReference, from: ContentNode, ancestors: ReadonlySet<string>): ContentLink => {
+    const link: ContentLink = {
+      ...ref,
+      node: nodes.get(ref.contentId) ?? null,
+      cycle: ancestors.has(ref.contentId),
+      missing: !contentIds.has(ref.contentId),
+      async load(signal?: AbortSignal) {
+        link.node = await createNode(ref.contentId, from.depth + 1, ancestors, signal);
+        return link.node;
+      },
+    };
+    return link;
+  };
+
+  const root = (await createNode(rootId, 0, new Set(), options.signal)) as ContentNode<T>;
+
+  let frontier: ContentNode[] = eager ? [root] : [];
+  while (frontier.length) {
+    const next: ContentNode[] = [];
+    await Promise.all(
+      frontier
+        .filter((node) => node.depth < maxDepth)
+        .flatMap((node) => node.links.filter((l) => !l.missing))
+        .map(async (link) => {
+          const isNew = !pending.has(link.contentId);
+          const child = await link.load(options.signal);
+          if (isNew) next.push(child);
+        })
+    );
+    frontier = next;
+  }
+
+  // Links created before their target was loaded still point nowhere
+  for (const node of nodes.values()) {
+    for (const link of node.links) link.node ??= nodes.get(link.contentId) ?? null;
+  }
+  return { root, nodes };
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,57 @@
+/**
+ * Generated content types by content type, the first segment of a content id (e.g. 'AbilityMaps').
+ * Empty in the SDK: the index.d.ts written by `beamable generateTypes` adds the project's types through
+ * module augmentation, and ContentModule.getContent and getContentByType then infer their return types.
+ */
+export interface ContentTypeRegistry {}
+
+/**
+ * Generated content types by content id (e.g. 'AbilityMaps.VitalityAura'). Augmented like ContentTypeRegistry.
+ */
+export interface ContentIdRegistry {}
+
+type KnownContentId = keyof ContentIdRegistry & string;
+type KnownContentType = keyof ContentTypeRegistry & string;
+
+/**
+ * A content id known to the generated registry, or any string before types are generated.
+ */
+export type ContentId = [KnownContentId] extends [never] ? string : KnownContentId;
+
+/**
+ * A content type known to the generated registry or a prefix under one (e.g. 'items.Quest'), or any string
+ * before types are generated.
+ */
+export type ContentTypeId = [KnownContentType] extends [never]
+  ? string
+  : KnownContentType | `${KnownContentType}.${string}`;
+
+/**
+ * The generated type for a content id or type prefix: the id's own entry first, then its content type.
+ * Unknown ids, and ids only known at runtime, are `any`.
+ */
+export type ContentOf<Id extends string> = Id extends KnownContentId
+  ? ContentIdRegistry[Id]
+  : Id extends `${infer Type}.${string}`
+    ? Type extends KnownContentType
+      ? ContentTypeRegistry[Type]
+      : any
+    : Id extends KnownContentType
+      ? ContentTypeRegistry[Id]
+      : any;
+
+/**
+ * Checks string literals against the registry while accepting ids typed as plain `string`.
+ * @internal
+ */
+export type CheckedContentId<Id extends string> = string extends Id ? Id : Id extends ContentId ? Id : ContentId;
+
+/**
+ * Like CheckedContentId, for content types.
+ * @internal
+ */
+export type CheckedContentType<Type extends string> = string extends Type
+  ? Type
+  : Type extends ContentTypeId
+    ? Type
+    : ContentTypeId;
@@ -0,0 +1,112 @@
+import type { BeamableValidationIssue } from '../core/BeamableError';
+
+/**
+ * Checks downloaded content and returns one issue per problem, or an empty array when the content is valid.
+ * Use jsonSchemaValidator for the schemas written by `beamable generateTypes --schemas`, or adapt any other
+ * validation library.
+ */
+export type ContentValidator = (content: unknown) => BeamableValidationIssue[];
+
+/**
+ * The subset of JSON Schema that jsonSchemaValidator understands: type, properties, required,
+ * additionalProperties, items, anyOf and enum. Other keywords are ignored.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  type?: string | string[]; // 'string', 'number', 'integer', 'boolean', 'null', 'object' or 'array'
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+}
+
+/**
+ * Create a ContentValidator from a JSON Schema.
+ * @param schema The schema, e.g. a generated AbilityMaps.schema.json
+ * @example
+ * import abilityMapsSchema from '../types/content/AbilityMaps.schema.json';
+ * const abilityMap = await content.getContent('AbilityMaps.VitalityAura', { validate: jsonSchemaValidator(abilityMapsSchema) });
+ */
+export function jsonSchemaValidator(schema: JsonSchema): ContentValidator {
+  return (content) => validateJsonSchema(schema, content);
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ * @returns Every issue found, with paths like 'properties.waves[2].minion'
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = ''): BeamableValidationIssue[] {
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map((option) => validateJsonSchema(option, value, path));
+    if (!attempts.some((issues) => issues.length === 0)) {
+      // Report the closest option: the one that got furthest before failing
+      return attempts.reduce((best, issues) => (deepest(issues) > deepest(best) ? issues : best));
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))) {
+    return [{ path, message: `expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}` }];
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return [{ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` }];
+    }
+  }
+
+  const issues: BeamableValidationIssue[] = [];
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateJsonSchema(schema.items!, item, `${path}[${i}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) issues.push({ path: joinPath(path, key), message: 'is required' });
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const fieldSchema = schema.properties?.[key];
+      if (fieldSchema) {
+        issues.push(...validateJsonSchema(fieldSchema, child, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not allowed' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(schema.additionalProperties, child, joinPath(path, key)));
+      }
+    }
+  }
+  return issues;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepest(issues: BeamableValidationIssue[]): number {
+  return Math.max(-1, ...issues.map((issue) => issue.path.split(/[.[]/).length));
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
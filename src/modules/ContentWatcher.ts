@@ -0,0 +1,177 @@
+import { EventEmitter } from '../core/EventEmitter';
+import type { ContentManifestEntry, ContentManifestResponse } from './Content';
+import { diffManifests, getEntryId } from './ContentManifest';
+
+/**
+ * A push channel that announces content publishes, e.g. a Beamable notification subscription.
+ * The watcher checks the manifest whenever it fires.
+ */
+export interface ContentChangeNotifier {
+  /**
+   * @returns A function that unsubscribes again
+   */
+  subscribe(onChange: () => void): () => void;
+}
+
+export interface ContentWatchOptions {
+  intervalMs?: number; // How often to poll the manifest (default: 30000). 0 disables polling, e.g. with a notifier
+  notifier?: ContentChangeNotifier;
+  types?: string[]; // Only report content under these type prefixes
+  loadContent?: boolean; // Download added and changed content before emitting (default: true)
+}
+
+/**
+ * The watcher's view of the ContentModule.
+ * @internal
+ */
+export interface ContentWatchSource {
+  current(): ContentManifestResponse | null;
+  refresh(signal?: AbortSignal): Promise<ContentManifestResponse>;
+  load(entry: ContentManifestEntry, signal?: AbortSignal): Promise<any>;
+}
+
+export interface ContentEntryEvent<T = any> {
+  contentId: string;
+  entry: ContentManifestEntry;
+  content?: T; // The new content; undefined when loadContent is false or the download failed
+}
+
+/**
+ * Every change found by one manifest check, delivered in one 'change' event.
+ */
+export interface ContentChangeSet<T = any> {
+  manifest: ContentManifestResponse;
+  added: ContentEntryEvent<T>[];
+  changed: ContentEntryEvent<T>[];
+  removed: ContentEntryEvent<T>[];
+}
+
+export interface ContentWatcherEvents<T = any> {
+  change: ContentChangeSet<T>;
+  added: ContentEntryEvent<T>;
+  changed: ContentEntryEvent<T>;
+  removed: ContentEntryEvent<T>;
+  error: unknown;
+}
+
+const DEFAULT_WATCH_INTERVAL_MS = 30_000;
+
+/**
+ * Polls the content manifest and emits events for content that was added, republished or removed.
+ * Created by ContentModule.watch; the module's cache is updated before events fire, so getContent already
+ * returns the new content inside a listener.
+ *
+ * @example
+ * const watcher = context.Content.watch<Items>({ types: ['items'] });
+ * watcher.on('changed', ({ contentId, content }) => applyTuning(contentId, content));
+ * watcher.on('error', (error) => console.warn(error));
+ * // later
+ * watcher.stop();
+ */
+export class ContentWatcher<T = any> extends EventEmitter<ContentWatcherEvents<T>> {
+  private source: ContentWatchSource;
+  private options: ContentWatchOptions;
+  private baseline: ContentManifestResponse | null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private checking: Promise<ContentChangeSet<T> | null> | null = null;
+
+  constructor(source: ContentWatchSource, options: ContentWatchOptions = {}) {
+    super();
+    this.source = source;
+    this.options = options;
+    this.baseline = source.current();
+  }
+
+  /** True between start() and stop(). */
+  get running(): boolean {
+    return this.timer !== null || this.unsubscribe !== null;
+  }
+
+  /**
+   * Start polling and listening to the notifier. Without a cached manifest, the first check only records a
+   * baseline.
+   */
+  start(): this {
+    if (this.running) return this;
+    const intervalMs = this.options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+    const poll = () => {
+      this.check().catch(() => {}); // Reported through the 'error' event
+    };
+    if (intervalMs > 0) {
+      const timer = setInterval(poll, intervalMs);
+      // Don't keep a Node process alive just to watch content
+      if (typeof timer === 'object' && 'unref' in timer) timer.unref();
+      this.timer = timer;
+    }
+    if (this.options.notifier) this.unsubscribe = this.options.notifier.subscribe(poll);
+    if (!this.baseline) poll();
+    return this;
+  }
+
+  /** Stop polling and unsubscribe from the notifier. */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Fetch the manifest now and emit events for what changed since the last check.
+   * @returns The changes, or null if this check only recorded the baseline
+   */
+  check(signal?: AbortSignal): Promise<ContentChangeSet<T> | null> {
+    // Overlapping checks (a slow poll plus a notification) share one request
+    this.checking ??= this.runCheck(signal).finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private async runCheck(signal?: AbortSignal): Promise<ContentChangeSet<T> | null> {
+    try {
+      const previous = this.baseline;
+      const manifest = await this.source.refresh(signal);
+      this.baseline = manifest;
+      if (!previous) return null;
+
+      const diff = diffManifests(previous, manifest);
+      const changes: ContentChangeSet<T> = {
+        manifest,
+        added: await this.toEvents(diff.added, true, signal),
+        changed: await this.toEvents(diff.changed, true, signal),
+        removed: await this.toEvents(diff.removed, false, signal),
+      };
+      if (!changes.added.length && !changes.changed.length && !changes.removed.length) return changes;
+
+      changes.added.forEach((e) => this.emit('added', e));
+      changes.changed.forEach((e) => this.emit('changed', e));
+      changes.removed.forEach((e) => this.emit('removed', e));
+      this.emit('change', changes);
+      return changes;
+    } catch (error) {
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  private async toEvents(entries: ContentManifestEntry[], load: boolean, signal?: AbortSignal): Promise<ContentEntryEvent<T>[]> {
+    const types = this.options.types;
+    const watched = types?.length ? entries.filter((e) => types.some((type) => getEntryId(e).startsWith(`${type}.`))) : entries;
+    return Promise.all(
+      watched.map(async (entry) => {
+        const event: ContentEntryEvent<T> = { contentId: getEntryId(entry), entry };
+        if (load && this.options.loadContent !== false) {
+          try {
+            event.content = await this.source.load(entry, signal);
+          } catch (error) {
+            if (signal?.aborted) throw error;
+            this.emit('error', error);
+          }
+        }
+        return event;
+      })
+    );
+  }
+}
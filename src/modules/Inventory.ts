@@ -1,4 +1,7 @@
 import type { BeamableCore } from '../core/BeamableCore';
+import type { BeamContext } from '../core/BeamContext';
+import { BeamableError } from '../core/BeamableError';
+import { InventoryView } from './InventoryView';
 
 /**
  * Response from GET /object/inventory/{playerId}/
@@ -7,6 +10,7 @@ import type { BeamableCore } from '../core/BeamableCore';
 export interface InventoryResponse {
   currencies?: InventoryCurrency[];
   items?: InventoryItem[];
+  scope?: string;
   [key: string]: any; // Allow for additional fields
 }
 
@@ -21,30 +25,390 @@ export interface InventoryCurrency {
 }
 
 /**
- * Represents an item in the player's inventory
+ * Represents an item in the player's inventory.
+ * The API groups items by content: id is the content id and items holds the individual instances.
  */
 export interface InventoryItem {
   id: string;
   proxyId?: string;
   amount?: number;
   properties?: Record<string, any>;
+  items?: InventoryItemInstance[];
   [key: string]: any; // Allow for additional fields
 }
 
+/**
+ * A single instance of an item, e.g. one of several 'items.sword' a player owns.
+ */
+export interface InventoryItemInstance {
+  id: string; // Instance id, unique per player
+  properties?: InventoryProperty[];
+  createdAt?: number;
+  updatedAt?: number;
+  proxyId?: string;
+  [key: string]: any;
+}
+
+/**
+ * A name/value property on an item instance or currency.
+ */
+export interface InventoryProperty {
+  name: string;
+  value: string;
+}
+
+/**
+ * Body of PUT /object/inventory/{playerId}/ and /preview. All operations in one request are applied atomically.
+ */
+export interface InventoryUpdateRequest {
+  transaction?: string; // Idempotency key; the server applies a transaction id only once
+  applyVipBonus?: boolean;
+  currencies?: Record<string, number>; // Currency id -> amount to add (negative to subtract)
+  currencyProperties?: Record<string, InventoryProperty[]>;
+  newItems?: NewInventoryItem[];
+  updateItems?: UpdateInventoryItem[];
+  deleteItems?: DeleteInventoryItem[];
+}
+
+export interface NewInventoryItem {
+  contentId: string;
+  properties: InventoryProperty[];
+  requestId?: string;
+}
+
+export interface UpdateInventoryItem {
+  contentId: string;
+  id: string; // Instance id
+  properties: InventoryProperty[];
+}
+
+export interface DeleteInventoryItem {
+  contentId: string;
+  id: string; // Instance id
+}
+
+/**
+ * Response from inventory updates and transfers.
+ */
+export interface InventoryUpdateResponse {
+  result?: string;
+  data?: Record<string, string>;
+  [key: string]: any;
+}
+
+/**
+ * Response from PUT /object/inventory/{playerId}/preview: the currency amounts after the update would be applied.
+ */
+export interface InventoryPreviewResponse {
+  currencies?: InventoryCurrencyPreview[];
+  [key: string]: any;
+}
+
+export interface InventoryCurrencyPreview {
+  id: string;
+  amount: number;
+  originalAmount?: number;
+  delta?: number;
+  [key: string]: any;
+}
+
+/**
+ * Body of PUT /object/inventory/{playerId}/transfer
+ */
+export interface InventoryTransferRequest {
+  recipientPlayer: number;
+  transaction?: string;
+  currencies: Record<string, number>;
+}
+
+/**
+ * Result of InventoryModule.validateUpdate
+ */
+export interface InventoryValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Convert a plain object into the name/value property list used by the inventory API.
+ */
+export function toInventoryProperties(properties: Record<string, string | number | boolean> = {}): InventoryProperty[] {
+  return Object.entries(properties).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function createTransactionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Collects several inventory operations and sends them as one atomic update.
+ * @example
+ * await context.Inventory.beginUpdate(playerId)
+ *   .addCurrency('currency.gems', -50)
+ *   .addItem('items.sword', { level: 1 })
+ *   .commit();
+ */
+export class InventoryUpdateBuilder {
+  private inventory: InventoryModule;
+  private playerId: string;
+  private request: InventoryUpdateRequest = {};
+
+  constructor(inventory: InventoryModule, playerId: string) {
+    this.inventory = inventory;
+    this.playerId = playerId;
+  }
+
+  addCurrency(currencyId: string, amount: number): this {
+    const currencies = (this.request.currencies ??= {});
+    currencies[currencyId] = (currencies[currencyId] ?? 0) + amount;
+    return this;
+  }
+
+  setCurrencyProperties(currencyId: string, properties: Record<string, string | number | boolean>): this {
+    (this.request.currencyProperties ??= {})[currencyId] = toInventoryProperties(properties);
+    return this;
+  }
+
+  addItem(contentId: string, properties?: Record<string, string | number | boolean>): this {
+    (this.request.newItems ??= []).push({ contentId, properties: toInventoryProperties(properties) });
+    return this;
+  }
+
+  updateItem(contentId: string, itemId: string, properties: Record<string, string | number | boolean>): this {
+    (this.request.updateItems ??= []).push({ contentId, id: itemId, properties: toInventoryProperties(properties) });
+    return this;
+  }
+
+  removeItem(contentId: string, itemId: string): this {
+    (this.request.deleteItems ??= []).push({ contentId, id: itemId });
+    return this;
+  }
+
+  applyVipBonus(apply: boolean = true): this {
+    this.request.applyVipBonus = apply;
+    return this;
+  }
+
+  /** The request that commit() would send. */
+  build(): InventoryUpdateRequest {
+    return { ...this.request };
+  }
+
+  /** Preview the update without applying it. */
+  preview(signal?: AbortSignal): Promise<InventoryPreviewResponse> {
+    return this.inventory.previewUpdate(this.playerId, this.build(), signal);
+  }
+
+  /** Apply all collected operations in one transaction. */
+  commit(signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    return this.inventory.updateInventory(this.playerId, this.build(), signal);
+  }
+}
+
+/**
+ * Inventory endpoints. In server mode every call impersonates the player by setting X-BEAM-GAMERTAG to playerId.
+ * Writes from client mode only succeed for content the realm allows clients to modify.
+ */
 export class InventoryModule {
   private core: BeamableCore;
-  constructor(core: BeamableCore) {
+  private context?: BeamContext;
+  private _view: InventoryView | null = null;
+  constructor(core: BeamableCore, context?: BeamContext) {
     this.core = core;
+    this.context = context;
+  }
+
+  /**
+   * Cached, observable inventory of the context's current player. Call view.refresh() to load it;
+   * afterwards updates made through this module for that player are applied to it optimistically.
+   */
+  get view(): InventoryView {
+    if (!this._view) {
+      this._view = new InventoryView(this, () => (this.context?.playerId != null ? String(this.context.playerId) : null));
+    }
+    return this._view;
   }
 
   /**
    * Get the inventory for a specific player.
    * In server mode, this will impersonate the player by setting X-BEAM-GAMERTAG to playerId.
    * @param playerId The player's ID
+   * @param signal Optionally cancel the request
    * @returns Promise<InventoryResponse> The player's inventory data
    */
-  async getInventory(playerId: string): Promise<InventoryResponse> {
-    return this.core.request('GET', `/object/inventory/${playerId}/`, undefined, { auth: true, gamertag: playerId });
+  async getInventory(playerId: string, signal?: AbortSignal): Promise<InventoryResponse> {
+    return this.core.request('GET', `/object/inventory/${playerId}/`, undefined, { auth: true, gamertag: playerId, signal });
+  }
+
+  /**
+   * Get only the parts of a player's inventory matching the given scopes (content types or ids).
+   * @param playerId The player's ID
+   * @param scopes Content type prefixes or content ids, e.g. ['currency.gems', 'items.weapons']
+   * @param signal Optionally cancel the request
+   */
+  async getInventoryByScope(playerId: string, scopes: string[], signal?: AbortSignal): Promise<InventoryResponse> {
+    return this.core.request('POST', `/object/inventory/${playerId}/`, { scopes }, { auth: true, gamertag: playerId, idempotent: true, signal });
+  }
+
+  /**
+   * Apply a multi-operation update atomically. A transaction id is generated when none is given,
+   * which makes the request safe to retry.
+   * @param playerId The player's ID
+   * @param request The currencies and items to change
+   * @param signal Optionally cancel the request
+   * @throws BeamableError if the request fails validateUpdate
+   */
+  async updateInventory(playerId: string, request: InventoryUpdateRequest, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    this.assertValid(request);
+    const body = { ...request, transaction: request.transaction ?? createTransactionId() };
+    return this.tracked(playerId, request, () =>
+      this.core.request('PUT', `/object/inventory/${playerId}/`, body, { auth: true, gamertag: playerId, idempotent: true, signal })
+    );
   }
-  // Add more inventory methods as needed
-} 
\ No newline at end of file
+
+  /**
+   * Preview the result of an update without applying it.
+   * @param playerId The player's ID
+   * @param request The update to preview
+   * @param signal Optionally cancel the request
+   */
+  async previewUpdate(playerId: string, request: InventoryUpdateRequest, signal?: AbortSignal): Promise<InventoryPreviewResponse> {
+    this.assertValid(request);
+    return this.core.request('PUT', `/object/inventory/${playerId}/preview`, request, { auth: true, gamertag: playerId, signal });
+  }
+
+  /**
+   * Check an update request locally before sending it: ids must be present, amounts must be
+   * integers, and the request must contain at least one operation.
+   */
+  validateUpdate(request: InventoryUpdateRequest): InventoryValidationResult {
+    const errors: string[] = [];
+    for (const [currencyId, amount] of Object.entries(request.currencies ?? {})) {
+      if (!currencyId) errors.push('currencies: currency id must not be empty');
+      if (!Number.isInteger(amount)) errors.push(`currencies.${currencyId}: amount must be an integer, got ${amount}`);
+    }
+    (request.newItems ?? []).forEach((item, i) => {
+      if (!item.contentId) errors.push(`newItems[${i}]: contentId is required`);
+    });
+    (request.updateItems ?? []).forEach((item, i) => {
+      if (!item.contentId) errors.push(`updateItems[${i}]: contentId is required`);
+      if (!item.id) errors.push(`updateItems[${i}]: id is required`);
+    });
+    (request.deleteItems ?? []).forEach((item, i) => {
+      if (!item.contentId) errors.push(`deleteItems[${i}]: contentId is required`);
+      if (!item.id) errors.push(`deleteItems[${i}]: id is required`);
+    });
+    const isEmpty =
+      !Object.keys(request.currencies ?? {}).length &&
+      !Object.keys(request.currencyProperties ?? {}).length &&
+      !request.newItems?.length &&
+      !request.updateItems?.length &&
+      !request.deleteItems?.length;
+    if (isEmpty) errors.push('update contains no operations');
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Start collecting operations for one atomic update.
+   * @param playerId The player's ID
+   */
+  beginUpdate(playerId: string): InventoryUpdateBuilder {
+    return new InventoryUpdateBuilder(this, playerId);
+  }
+
+  /**
+   * Grant a new item instance.
+   * @param playerId The player's ID
+   * @param contentId The item content id, e.g. 'items.sword'
+   * @param properties Optional instance properties
+   * @param signal Optionally cancel the request
+   */
+  async addItem(playerId: string, contentId: string, properties?: Record<string, string | number | boolean>, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    return this.beginUpdate(playerId).addItem(contentId, properties).commit(signal);
+  }
+
+  /**
+   * Replace the properties of an item instance.
+   * @param playerId The player's ID
+   * @param contentId The item content id
+   * @param itemId The instance id
+   * @param properties The new properties
+   * @param signal Optionally cancel the request
+   */
+  async updateItem(playerId: string, contentId: string, itemId: string, properties: Record<string, string | number | boolean>, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    return this.beginUpdate(playerId).updateItem(contentId, itemId, properties).commit(signal);
+  }
+
+  /**
+   * Remove an item instance.
+   * @param playerId The player's ID
+   * @param contentId The item content id
+   * @param itemId The instance id
+   * @param signal Optionally cancel the request
+   */
+  async removeItem(playerId: string, contentId: string, itemId: string, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    return this.beginUpdate(playerId).removeItem(contentId, itemId).commit(signal);
+  }
+
+  /**
+   * Add to (or, with a negative amount, subtract from) a currency.
+   * @param playerId The player's ID
+   * @param currencyId The currency content id, e.g. 'currency.gems'
+   * @param amount The amount to add
+   * @param signal Optionally cancel the request
+   */
+  async addCurrency(playerId: string, currencyId: string, amount: number, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    return this.beginUpdate(playerId).addCurrency(currencyId, amount).commit(signal);
+  }
+
+  /**
+   * Set a currency to an absolute amount. The API only accepts deltas, so this reads the current
+   * amount first; concurrent changes between the read and the update are not detected.
+   * @param playerId The player's ID
+   * @param currencyId The currency content id
+   * @param amount The new amount
+   * @param signal Optionally cancel the request
+   */
+  async setCurrency(playerId: string, currencyId: string, amount: number, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    const inventory = await this.getInventoryByScope(playerId, [currencyId], signal);
+    const current = inventory.currencies?.find((c) => c.id === currencyId)?.amount ?? 0;
+    return this.addCurrency(playerId, currencyId, amount - current, signal);
+  }
+
+  /**
+   * Transfer currencies from one player to another.
+   * @param playerId The sending player's ID
+   * @param recipientPlayerId The receiving player's ID
+   * @param currencies Currency id -> amount to transfer
+   * @param signal Optionally cancel the request
+   */
+  async transfer(playerId: string, recipientPlayerId: string, currencies: Record<string, number>, signal?: AbortSignal): Promise<InventoryUpdateResponse> {
+    const body: InventoryTransferRequest = {
+      recipientPlayer: Number(recipientPlayerId),
+      transaction: createTransactionId(),
+      currencies,
+    };
+    const outgoing = Object.fromEntries(Object.entries(currencies).map(([id, amount]) => [id, -amount]));
+    return this.tracked(playerId, { currencies: outgoing }, () =>
+      this.core.request('PUT', `/object/inventory/${playerId}/transfer`, body, { auth: true, gamertag: playerId, idempotent: true, signal })
+    );
+  }
+
+  /**
+   * Send an update through the view when it observes this player, so the change is applied optimistically.
+   */
+  private tracked<R>(playerId: string, request: InventoryUpdateRequest, send: () => Promise<R>): Promise<R> {
+    const view = this._view;
+    if (view && view.getSnapshot() && view.playerId === playerId) {
+      return view.trackUpdate(request, send);
+    }
+    return send();
+  }
+
+  private assertValid(request: InventoryUpdateRequest) {
+    const { valid, errors } = this.validateUpdate(request);
+    if (!valid) {
+      throw new BeamableError(`Invalid inventory update: ${errors.join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import { EventEmitter } from '../core/EventEmitter';
+import { BeamableError } from '../core/BeamableError';
+import type {
+  InventoryModule,
+  InventoryResponse,
+  InventoryUpdateRequest,
+  InventoryItem,
+  InventoryItemInstance,
+} from './Inventory';
+
+export interface InventoryItemEvent {
+  contentId: string;
+  item: InventoryItemInstance;
+  optimistic: boolean; // True while the change is only applied locally and not yet confirmed by the server
+}
+
+export interface InventoryItemChangedEvent extends InventoryItemEvent {
+  previous: InventoryItemInstance;
+}
+
+export interface InventoryCurrencyChangedEvent {
+  id: string;
+  previous: number;
+  current: number;
+  delta: number;
+  optimistic: boolean;
+}
+
+/**
+ * Every change between two snapshots, delivered in one 'change' event.
+ */
+export interface InventoryChangeSet {
+  snapshot: InventoryResponse;
+  itemsAdded: InventoryItemEvent[];
+  itemsRemoved: InventoryItemEvent[];
+  itemsChanged: InventoryItemChangedEvent[];
+  currencies: InventoryCurrencyChangedEvent[];
+  optimistic: boolean;
+}
+
+export interface InventoryViewEvents {
+  change: InventoryChangeSet;
+  itemAdded: InventoryItemEvent;
+  itemRemoved: InventoryItemEvent;
+  itemChanged: InventoryItemChangedEvent;
+  currencyChanged: InventoryCurrencyChangedEvent;
+}
+
+/**
+ * A cached, observable view of one player's inventory.
+ *
+ * The view keeps the last InventoryResponse, refreshes it on demand, and emits typed events for every
+ * difference. Updates sent through InventoryModule for the same player are applied optimistically and
+ * rolled back if the server rejects them. Snapshots are never mutated, so they can be compared by reference
+ * (e.g. React's useSyncExternalStore).
+ *
+ * @example
+ * const view = context.Inventory.view;
+ * view.on('currencyChanged', (e) => console.log(e.id, e.delta));
+ * await view.refresh();
+ */
+export class InventoryView extends EventEmitter<InventoryViewEvents> {
+  private inventory: InventoryModule;
+  private resolvePlayerId: () => string | null;
+  private snapshot: InventoryResponse | null = null;
+  private confirmed: InventoryResponse | null = null; // The server state under the pending updates
+  private pending: PendingUpdate[] = [];
+  private pendingCount = 0;
+
+  /**
+   * @param inventory The module used to fetch and update the inventory
+   * @param playerId The player to observe, or a function returning it (resolved on every refresh)
+   */
+  constructor(inventory: InventoryModule, playerId: string | (() => string | null)) {
+    super();
+    this.inventory = inventory;
+    this.resolvePlayerId = typeof playerId === 'function' ? playerId : () => playerId;
+  }
+
+  /** The player this view observes, or null if not known yet (e.g. before login). */
+  get playerId(): string | null {
+    return this.resolvePlayerId();
+  }
+
+  /** The last known inventory, or null before the first refresh. */
+  getSnapshot(): InventoryResponse | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Subscribe to every change. Compatible with React's useSyncExternalStore, Svelte stores and Vue watchers.
+   * @returns A function that removes the listener again
+   */
+  subscribe(listener: (snapshot: InventoryResponse) => void): () => void {
+    return this.on('change', (changes) => listener(changes.snapshot));
+  }
+
+  /** The amount of a currency in the last snapshot (0 if absent). */
+  getCurrency(currencyId: string): number {
+    return this.snapshot?.currencies?.find((c) => c.id === currencyId)?.amount ?? 0;
+  }
+
+  /** The instances of an item in the last snapshot. */
+  getItems(contentId: string): InventoryItemInstance[] {
+    return this.snapshot?.items?.find((group) => group.id === contentId)?.items ?? [];
+  }
+
+  /**
+   * Fetch the inventory from the server and emit events for everything that changed.
+   */
+  async refresh(signal?: AbortSignal): Promise<InventoryResponse> {
+    const playerId = this.playerId;
+    if (!playerId) {
+      throw new BeamableError('InventoryView.refresh: the player id is not known yet. Wait for context.onReady.');
+    }
+    const next = await this.inventory.getInventory(playerId, signal);
+    if (this.pending.length) {
+      // Updates still in flight stay applied on top of the fresh state
+      this.confirmed = next;
+      this.replace(this.withPending(), false);
+    } else {
+      this.replace(next, false);
+    }
+    return next;
+  }
+
+  /**
+   * Apply an update locally, send it, then reconcile with the server. Rolls back only this update if sending fails.
+   * Called by InventoryModule for updates to this view's player once the view holds a snapshot.
+   * @internal
+   */
+  async trackUpdate<R>(request: InventoryUpdateRequest, send: () => Promise<R>): Promise<R> {
+    const update: PendingUpdate = { request, placeholderIds: [] };
+    if (this.snapshot) {
+      if (!this.pending.length) this.confirmed = this.snapshot;
+      this.pending.push(update);
+      this.replace(this.applyPending(this.snapshot, update), true);
+    }
+    let result: R;
+    try {
+      result = await send();
+    } catch (error) {
+      // Roll back this update only: the others still pending are re-applied to the state below them
+      if (this.settle(update)) this.replace(this.withPending(), false);
+      throw error;
+    }
+    if (this.settle(update)) this.confirmed = this.applyPending(this.confirmed!, update);
+    try {
+      await this.refresh();
+    } catch (error) {
+      console.warn('InventoryView: failed to refresh after update:', error);
+    }
+    return result;
+  }
+
+  /** Stop tracking an update. False if it was never applied to the view. */
+  private settle(update: PendingUpdate): boolean {
+    const index = this.pending.indexOf(update);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    return true;
+  }
+
+  /** The confirmed state with every pending update applied, in the order they were sent. */
+  private withPending(): InventoryResponse {
+    return this.pending.reduce((snapshot, update) => this.applyPending(snapshot, update), this.confirmed!);
+  }
+
+  /** Apply an update, reusing its placeholder item ids so re-applying it does not look like new items. */
+  private applyPending(snapshot: InventoryResponse, update: PendingUpdate): InventoryResponse {
+    let next = 0;
+    return applyUpdate(snapshot, update.request, () => {
+      if (next === update.placeholderIds.length) update.placeholderIds.push(`pending-${++this.pendingCount}`);
+      return update.placeholderIds[next++];
+    });
+  }
+
+  private replace(next: InventoryResponse, optimistic: boolean) {
+    const previous = this.snapshot;
+    this.snapshot = next;
+    const changes = diffInventories(previous, next, optimistic);
+    const changed =
+      previous === null ||
+      changes.itemsAdded.length ||
+      changes.itemsRemoved.length ||
+      changes.itemsChanged.length ||
+      changes.currencies.length;
+    if (!changed) return;
+    changes.itemsAdded.forEach((e) => this.emit('itemAdded', e));
+    changes.itemsRemoved.forEach((e) => this.emit('itemRemoved', e));
+    changes.itemsChanged.forEach((e) => this.emit('itemChanged', e));
+    changes.currencies.forEach((e) => this.emit('currencyChanged', e));
+    this.emit('change', changes);
+  }
+}
+
+interface PendingUpdate {
+  request: InventoryUpdateRequest;
+  placeholderIds: string[]; // Ids given to the update's new items while it is pending
+}
+
+/**
+ * Compute every difference between two inventory snapshots.
+ */
+export function diffInventories(previous: InventoryResponse | null, next: InventoryResponse, optimistic: boolean = false): InventoryChangeSet {
+  const changes: InventoryChangeSet = {
+    snapshot: next,
+    itemsAdded: [],
+    itemsRemoved: [],
+    itemsChanged: [],
+    currencies: [],
+    optimistic,
+  };
+
+  const before = new Map((previous?.currencies ?? []).map((c) => [c.id, c.amount]));
+  const after = new Map((next.currencies ?? []).map((c) => [c.id, c.amount]));
+  for (const id of new Set([...before.keys(), ...after.keys()])) {
+    const prev = before.get(id) ?? 0;
+    const curr = after.get(id) ?? 0;
+    if (prev !== curr) changes.currencies.push({ id, previous: prev, current: curr, delta: curr - prev, optimistic });
+  }
+
+  const oldItems = indexItems(previous?.items);
+  const newItems = indexItems(next.items);
+  for (const [key, entry] of newItems) {
+    const old = oldItems.get(key);
+    if (!old) {
+      changes.itemsAdded.push({ contentId: entry.contentId, item: entry.item, optimistic });
+    } else if (JSON.stringify(old.item.properties ?? []) !== JSON.stringify(entry.item.properties ?? [])) {
+      changes.itemsChanged.push({ contentId: entry.contentId, item: entry.item, previous: old.item, optimistic });
+    }
+  }
+  for (const [key, entry] of oldItems) {
+    if (!newItems.has(key)) changes.itemsRemoved.push({ contentId: entry.contentId, item: entry.item, optimistic });
+  }
+  return changes;
+}
+
+function indexItems(groups: InventoryItem[] = []) {
+  const index = new Map<string, { contentId: string; item: InventoryItemInstance }>();
+  for (const group of groups) {
+    for (const item of group.items ?? []) {
+      index.set(`${group.id}:${item.id}`, { contentId: group.id, item });
+    }
+  }
+  return index;
+}
+
+/**
+ * Apply an update request to a snapshot, returning a new snapshot. New items get placeholder ids
+ * until the server's answer replaces them.
+ */
+function applyUpdate(snapshot: InventoryResponse, request: InventoryUpdateRequest, placeholderId: () => string): InventoryResponse {
+  const currencies = (snapshot.currencies ?? []).map((c) => ({ ...c }));
+  for (const [id, delta] of Object.entries(request.currencies ?? {})) {
+    const currency = currencies.find((c) => c.id === id);
+    if (currency) currency.amount += delta;
+    else currencies.push({ id, amount: delta, properties: [] });
+  }
+
+  const groups: InventoryItem[] = (snapshot.items ?? []).map((group) => ({ ...group, items: [...(group.items ?? [])] }));
+  const groupFor = (contentId: string) => {
+    let group = groups.find((g) => g.id === contentId);
+    if (!group) {
+      group = { id: contentId, items: [] };
+      groups.push(group);
+    }
+    return group;
+  };
+  for (const item of request.newItems ?? []) {
+    groupFor(item.contentId).items!.push({ id: placeholderId(), properties: item.properties });
+  }
+  for (const item of request.updateItems ?? []) {
+    const group = groupFor(item.contentId);
+    group.items = group.items!.map((i) => (i.id === item.id ? { ...i, properties: item.properties } : i));
+  }
+  for (const item of request.deleteItems ?? []) {
+    const group = groupFor(item.contentId);
+    group.items = group.items!.filter((i) => i.id !== item.id);
+  }
+
+  return { ...snapshot, currencies, items: groups };
+}
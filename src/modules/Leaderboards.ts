@@ -0,0 +1,310 @@
+import type { BeamableCore } from '../core/BeamableCore';
+
+/**
+ * A stat attached to a leaderboard entry.
+ */
+export interface LeaderboardStat {
+  name: string;
+  value: string;
+}
+
+/**
+ * One ranked entry. gt is the player's gamertag (player id).
+ */
+export interface LeaderboardEntry {
+  gt: number;
+  rank: number;
+  score?: number;
+  stats?: LeaderboardStat[];
+  columns?: Record<string, number>;
+  [key: string]: any;
+}
+
+/**
+ * A ranked slice of a leaderboard.
+ */
+export interface LeaderboardView {
+  boardName?: string;
+  boardsize?: number;
+  rankings: LeaderboardEntry[];
+  rankgt?: LeaderboardEntry; // The requesting (or focused) player's own entry, if ranked
+  [key: string]: any;
+}
+
+/**
+ * Response from the leaderboard view, ranks and friends endpoints.
+ */
+export interface LeaderboardViewResponse {
+  lb: LeaderboardView;
+  result?: string;
+  [key: string]: any;
+}
+
+/**
+ * Query options for GET /object/leaderboards/{boardId}/view
+ */
+export interface LeaderboardViewOptions {
+  max?: number; // Number of entries to return
+  from?: number; // First rank to return (1-based)
+  focus?: number | string; // Center the view on this player
+  outlier?: number | string; // Include this player's entry in addition to the view
+}
+
+/**
+ * Response from GET /object/leaderboards/{boardId}/assignment: the concrete board a player is
+ * assigned to on a partitioned or cohorted leaderboard.
+ */
+export interface LeaderboardAssignmentResponse {
+  leaderboardId: string;
+  [key: string]: any;
+}
+
+/**
+ * Response from GET /object/leaderboards/{boardId}/membership
+ */
+export interface LeaderboardMembershipResponse {
+  result?: string;
+  [key: string]: any;
+}
+
+/**
+ * Settings for creating a leaderboard (server mode).
+ */
+export interface LeaderboardCreateRequest {
+  partitioned?: boolean; // Split players into boards of maxEntries each
+  maxEntries?: number;
+  cohortSettings?: { cohorts: Array<{ id: string; description?: string; statRequirements: any[] }> };
+  ttl?: number; // Milliseconds before the board expires
+  freezeTime?: number; // Epoch milliseconds after which scores are rejected
+  scoreName?: string;
+  permissions?: { write_self?: boolean };
+  [key: string]: any;
+}
+
+/**
+ * Response from GET /basic/leaderboards/list
+ */
+export interface LeaderboardListResponse {
+  nameList: string[];
+  offset?: number;
+  total?: number;
+  [key: string]: any;
+}
+
+/**
+ * Response from GET /basic/leaderboards/player
+ */
+export interface PlayerLeaderboardsResponse {
+  lbs: Array<{ boardId?: string; rank?: number; score?: number; [key: string]: any }>;
+  [key: string]: any;
+}
+
+/**
+ * Response from leaderboard write endpoints.
+ */
+export interface LeaderboardUpdateResponse {
+  result?: string;
+  [key: string]: any;
+}
+
+/**
+ * Leaderboard endpoints. Every method accepts an optional trailing AbortSignal to cancel the request.
+ * Optionally impersonate a player in server mode by passing gamertag. On a forPlayer core, setScore,
+ * incrementScore and removeEntry reject any other playerId.
+ *
+ * For partitioned or cohorted leaderboards, resolve the player's concrete board with getAssignment and
+ * use the returned leaderboardId with the other methods.
+ */
+export class LeaderboardsModule {
+  private core: BeamableCore;
+  constructor(core: BeamableCore) {
+    this.core = core;
+  }
+
+  /**
+   * Set a player's score, replacing the previous one.
+   * @param boardId The leaderboard id, e.g. 'leaderboards.highscores'
+   * @param playerId The player's ID
+   * @param score The new score
+   * @param stats (Optional) Stats to store with the entry
+   * @param gamertag (Optional) Player ID to impersonate (server mode)
+   * @param signal (Optional) Cancels the request
+   */
+  async setScore(
+    boardId: string,
+    playerId: number | string,
+    score: number,
+    stats?: Record<string, any>,
+    gamertag?: string,
+    signal?: AbortSignal
+  ): Promise<LeaderboardUpdateResponse> {
+    const path = `/object/leaderboards/${boardId}/entry`;
+    this.core.assertActsAs(playerId, 'PUT', path);
+    const body = { id: Number(playerId), score, increment: false, ...(stats ? { stats } : {}) };
+    return this.core.request('PUT', path, body, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Add to a player's score. Not retried on transient failures, since the increment could be applied twice.
+   * @param boardId The leaderboard id
+   * @param playerId The player's ID
+   * @param delta The amount to add
+   * @param stats (Optional) Stats to store with the entry
+   * @param gamertag (Optional) Player ID to impersonate (server mode)
+   * @param signal (Optional) Cancels the request
+   */
+  async incrementScore(
+    boardId: string,
+    playerId: number | string,
+    delta: number,
+    stats?: Record<string, any>,
+    gamertag?: string,
+    signal?: AbortSignal
+  ): Promise<LeaderboardUpdateResponse> {
+    const path = `/object/leaderboards/${boardId}/entry`;
+    this.core.assertActsAs(playerId, 'PUT', path);
+    const body = { id: Number(playerId), score: delta, increment: true, ...(stats ? { stats } : {}) };
+    return this.core.request('PUT', path, body, { auth: true, gamertag, idempotent: false, signal });
+  }
+
+  /**
+   * Get a ranked view of a leaderboard.
+   * @param boardId The leaderboard id
+   * @param options Which slice of the board to return
+   */
+  async getView(boardId: string, options: LeaderboardViewOptions = {}, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardViewResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const query = params.toString();
+    return this.core.request('GET', `/object/leaderboards/${boardId}/view${query ? `?${query}` : ''}`, undefined, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Get the top entries of a leaderboard.
+   * @param boardId The leaderboard id
+   * @param count Number of entries (default: 10)
+   */
+  async getTop(boardId: string, count: number = 10, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardViewResponse> {
+    return this.getView(boardId, { from: 1, max: count }, gamertag, signal);
+  }
+
+  /**
+   * Get the entries ranked around a player.
+   * @param boardId The leaderboard id
+   * @param playerId The player to center the view on
+   * @param range Number of entries above and below the player (default: 5)
+   */
+  async getAroundPlayer(boardId: string, playerId: number | string, range: number = 5, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardViewResponse> {
+    return this.getView(boardId, { focus: playerId, max: range * 2 + 1 }, gamertag, signal);
+  }
+
+  /**
+   * Get the ranks of the current player's friends.
+   * @param boardId The leaderboard id
+   */
+  async getFriendsView(boardId: string, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardViewResponse> {
+    return this.core.request('GET', `/object/leaderboards/${boardId}/friends`, undefined, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Get the entries of specific players.
+   * @param boardId The leaderboard id
+   * @param playerIds The players to look up
+   */
+  async getRanks(boardId: string, playerIds: Array<number | string>, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardViewResponse> {
+    const params = new URLSearchParams({ ids: playerIds.join(',') });
+    return this.core.request('GET', `/object/leaderboards/${boardId}/ranks?${params.toString()}`, undefined, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Get one player's entry.
+   * @param boardId The leaderboard id
+   * @param playerId The player's ID
+   * @returns The entry, or null if the player has no score on the board
+   */
+  async getPlayerRank(boardId: string, playerId: number | string, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardEntry | null> {
+    const response = await this.getRanks(boardId, [playerId], gamertag, signal);
+    const entry = response.lb?.rankings?.find((e) => String(e.gt) === String(playerId));
+    return entry && entry.rank > 0 ? entry : null;
+  }
+
+  /**
+   * Resolve the concrete board a player belongs to on a partitioned or cohorted leaderboard.
+   * @param boardId The parent leaderboard id
+   * @param joinBoard Assign the player to a board if they have none yet (default: true)
+   */
+  async getAssignment(boardId: string, joinBoard: boolean = true, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardAssignmentResponse> {
+    const params = new URLSearchParams({ joinBoard: String(joinBoard) });
+    return this.core.request('GET', `/object/leaderboards/${boardId}/assignment?${params.toString()}`, undefined, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Check whether a player is a member of a leaderboard.
+   * @param boardId The leaderboard id
+   * @param playerId The player's ID
+   */
+  async getMembership(boardId: string, playerId: number | string, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardMembershipResponse> {
+    const params = new URLSearchParams({ playerId: String(playerId) });
+    return this.core.request('GET', `/object/leaderboards/${boardId}/membership?${params.toString()}`, undefined, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Remove a player's entry (server mode).
+   * @param boardId The leaderboard id
+   * @param playerId The player's ID
+   */
+  async removeEntry(boardId: string, playerId: number | string, gamertag?: string, signal?: AbortSignal): Promise<LeaderboardUpdateResponse> {
+    const path = `/object/leaderboards/${boardId}/entry`;
+    this.core.assertActsAs(playerId, 'DELETE', path);
+    return this.core.request('DELETE', path, { id: Number(playerId) }, { auth: true, gamertag, signal });
+  }
+
+  /**
+   * Create a leaderboard (server mode).
+   * @param boardId The leaderboard id
+   * @param settings Partitioning, cohorts, expiry and permissions
+   */
+  async createBoard(boardId: string, settings: LeaderboardCreateRequest = {}, signal?: AbortSignal): Promise<LeaderboardUpdateResponse> {
+    return this.core.request('POST', `/object/leaderboards/${boardId}/`, settings, { auth: true, signal });
+  }
+
+  /**
+   * Delete a leaderboard and all its entries (server mode).
+   * @param boardId The leaderboard id
+   */
+  async deleteBoard(boardId: string, signal?: AbortSignal): Promise<LeaderboardUpdateResponse> {
+    return this.core.request('DELETE', `/object/leaderboards/${boardId}/`, undefined, { auth: true, signal });
+  }
+
+  /**
+   * Freeze a leaderboard so it no longer accepts scores (server mode).
+   * @param boardId The leaderboard id
+   */
+  async freezeBoard(boardId: string, signal?: AbortSignal): Promise<LeaderboardUpdateResponse> {
+    return this.core.request('PUT', `/object/leaderboards/${boardId}/freeze`, undefined, { auth: true, signal });
+  }
+
+  /**
+   * List leaderboard ids in the realm (server mode).
+   * @param options Paging and an optional id prefix filter
+   */
+  async listBoards(options: { skip?: number; limit?: number; prefix?: string } = {}, signal?: AbortSignal): Promise<LeaderboardListResponse> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const query = params.toString();
+    return this.core.request('GET', `/basic/leaderboards/list${query ? `?${query}` : ''}`, undefined, { auth: true, signal });
+  }
+
+  /**
+   * List the leaderboards a player has entries on (server mode).
+   * @param playerId The player's ID
+   */
+  async getPlayerBoards(playerId: number | string, signal?: AbortSignal): Promise<PlayerLeaderboardsResponse> {
+    const params = new URLSearchParams({ dbid: String(playerId) });
+    return this.core.request('GET', `/basic/leaderboards/player?${params.toString()}`, undefined, { auth: true, signal });
+  }
+}
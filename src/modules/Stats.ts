@@ -1,4 +1,5 @@
 import type { BeamableCore } from '../core/BeamableCore';
+import { BeamableError } from '../core/BeamableError';
 
 /**
  * Response from stats endpoints (GET/POST/DELETE /object/stats/{objectId}/)
@@ -8,6 +9,10 @@ export interface StatsResponse {
   [key: string]: any;
 }
 
+/**
+ * Stats endpoints. Every method accepts an optional trailing AbortSignal to cancel the request.
+ * On a forPlayer core, writes to another player's stats (`*.player.<id>`) are rejected.
+ */
 export class StatsModule {
   private core: BeamableCore;
   constructor(core: BeamableCore) {
@@ -27,8 +32,8 @@ export class StatsModule {
   /**
    * Get stats for a given objectId. Optionally impersonate a player in server mode by passing gamertag.
    */
-  async getStats(objectId: string, gamertag?: string): Promise<StatsResponse> {
-    return this.core.request('GET', `/object/stats/${objectId}`, undefined, gamertag ? { auth: true, gamertag } : { auth: true });
+  async getStats(objectId: string, gamertag?: string, signal?: AbortSignal): Promise<StatsResponse> {
+    return this.core.request('GET', `/object/stats/${objectId}`, undefined, { auth: true, gamertag, signal });
   }
 
   /**
@@ -37,46 +42,54 @@ export class StatsModule {
    * @param stats The stats to set (key-value pairs)
    * @param gamertag (Optional) Player ID to impersonate (server mode)
    * @param emitAnalytics (Optional) Whether to emit analytics (default: true)
+   * @param signal (Optional) Cancels the request
    */
   async setStats(
     objectId: string,
     stats: Record<string, any>,
     gamertag?: string,
-    emitAnalytics: boolean = true
+    emitAnalytics: boolean = true,
+    signal?: AbortSignal
   ): Promise<StatsResponse> {
+    this.assertOwnObject('POST', `/object/stats/${objectId}`, objectId);
     const body = {
       set: stats,
       add: {},
       objectId,
       emitAnalytics
     };
+    // Setting absolute values is safe to retry, unlike incrementStats
     return this.core.request(
       'POST',
       `/object/stats/${objectId}`,
       body,
-      gamertag ? { auth: true, gamertag } : { auth: true }
+      { auth: true, gamertag, idempotent: true, signal }
     );
   }
 
   /**
    * Increment numeric stats for a given objectId. Uses 'add' for all keys. Only accepts numbers. Optionally impersonate a player in server mode by passing gamertag.
+   * Not retried on transient failures (the increment could be applied twice) unless the retry policy lists POST in retryableMethods.
    * @param objectId The stats objectId
    * @param increments The stats to increment (key-value pairs, values must be numbers)
    * @param gamertag (Optional) Player ID to impersonate (server mode)
    * @param emitAnalytics (Optional) Whether to emit analytics (default: true)
+   * @param signal (Optional) Cancels the request
    */
   async incrementStats(
     objectId: string,
     increments: Record<string, number>,
     gamertag?: string,
-    emitAnalytics: boolean = true
+    emitAnalytics: boolean = true,
+    signal?: AbortSignal
   ): Promise<StatsResponse> {
     // Validate all values are numbers
     for (const key in increments) {
       if (typeof increments[key] !== 'number') {
-        throw new Error(`incrementStats: Value for '${key}' must be a number`);
+        throw new BeamableError(`incrementStats: Value for '${key}' must be a number`);
       }
     }
+    this.assertOwnObject('POST', `/object/stats/${objectId}`, objectId);
     const body = {
       set: {},
       add: increments,
@@ -87,30 +100,40 @@ export class StatsModule {
       'POST',
       `/object/stats/${objectId}`,
       body,
-      gamertag ? { auth: true, gamertag } : { auth: true }
+      { auth: true, gamertag, signal }
     );
   }
 
   /**
    * Delete stats for a given objectId. Optionally impersonate a player in server mode by passing gamertag.
    */
-  async deleteStats(objectId: string, keys: string[], gamertag?: string): Promise<StatsResponse> {
+  async deleteStats(objectId: string, keys: string[], gamertag?: string, signal?: AbortSignal): Promise<StatsResponse> {
+    this.assertOwnObject('DELETE', `/object/stats/${objectId}/`, objectId);
     // If only one key, send as string; otherwise, send as array
     const statsField = keys.length === 1 ? keys[0] : keys;
-    return this.core.request('DELETE', `/object/stats/${objectId}/`, { stats: statsField }, gamertag ? { auth: true, gamertag } : { auth: true });
+    return this.core.request('DELETE', `/object/stats/${objectId}/`, { stats: statsField }, { auth: true, gamertag, signal });
   }
 
   /**
    * Get player stats for a given objectId using the /client endpoint (browser/JS safe). Optionally impersonate a player in server mode by passing gamertag.
    */
-  async getPlayerStats(objectId: string, gamertag?: string): Promise<StatsResponse> {
-    return this.core.request('GET', `/object/stats/${objectId}/client`, undefined, gamertag ? { auth: true, gamertag } : { auth: true });
+  async getPlayerStats(objectId: string, gamertag?: string, signal?: AbortSignal): Promise<StatsResponse> {
+    return this.core.request('GET', `/object/stats/${objectId}/client`, undefined, { auth: true, gamertag, signal });
   }
 
   /**
    * Set player stats for a given objectId using the /client endpoint (browser/JS safe). Optionally impersonate a player in server mode by passing gamertag.
    */
-  async setPlayerStats(objectId: string, stats: Record<string, any>, gamertag?: string): Promise<StatsResponse> {
-    return this.core.request('POST', `/object/stats/${objectId}/client`, stats, gamertag ? { auth: true, gamertag } : { auth: true });
+  async setPlayerStats(objectId: string, stats: Record<string, any>, gamertag?: string, signal?: AbortSignal): Promise<StatsResponse> {
+    this.assertOwnObject('POST', `/object/stats/${objectId}/client`, objectId);
+    return this.core.request('POST', `/object/stats/${objectId}/client`, stats, { auth: true, gamertag, idempotent: true, signal });
+  }
+
+  /**
+   * On a forPlayer core, reject writes to the stats of another player than the impersonated one.
+   */
+  private assertOwnObject(method: string, path: string, objectId: string): void {
+    const owner = objectId.match(/\.player\.([^.\/]+)$/);
+    if (owner) this.core.assertActsAs(owner[1], method, path);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,733 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import CryptoJS from 'crypto-js';
+import type { BeamableConfig } from '../core/BeamableCore';
+
+/**
+ * An account to seed. Accounts without an id get the next free one.
+ */
+export interface MockAccount {
+  id?: number;
+  email?: string;
+  username?: string;
+  password?: string; // Enables grant_type 'password' with the email or username
+  deviceIds?: string[]; // Enables grant_type 'device'
+}
+
+/**
+ * A player's inventory to seed: currency amounts and, per item content id, the properties of each instance.
+ */
+export interface MockInventory {
+  currencies?: Record<string, number>;
+  items?: Record<string, Array<Record<string, string>>>;
+}
+
+/**
+ * A content object served through the mock manifest and CDN.
+ */
+export interface MockContentEntry {
+  id: string;
+  content: any;
+  tags?: string[];
+  manifestId?: string; // Defaults to 'global'
+  visibility?: 'public' | 'private'; // Defaults to 'public'. Private manifests need a signed request
+}
+
+export interface MockBeamableSeed {
+  accounts?: MockAccount[];
+  stats?: Record<string, Record<string, any>>; // objectId -> stats, e.g. { 'client.public.player.1': { level: 3 } }
+  inventories?: Record<string, MockInventory>; // playerId -> inventory
+  content?: MockContentEntry[];
+}
+
+export interface MockBeamableServerOptions {
+  cid?: string; // Defaults to 'mock-cid'
+  pid?: string; // Defaults to 'mock-pid'
+  secret?: string; // Accepts signed server-mode requests. Without it, every signature is rejected
+  adminToken?: string; // Accepts this bearer token as server-mode authentication, like an admin access token
+  host?: string; // Defaults to 127.0.0.1
+  port?: number; // Defaults to a free port
+  tokenTtlMs?: number; // Access token lifetime, returned as expires_in (default: 1 hour)
+  seed?: MockBeamableSeed; // Applied on start and again by reset()
+}
+
+/**
+ * One request handled by the mock, in arrival order.
+ */
+export interface MockRequestRecord {
+  method: string;
+  path: string; // Path and query
+  status: number;
+  playerId: number | null; // The player the request acted as, if any
+  server: boolean; // Whether the request carried a valid signature or the admin token
+}
+
+interface AccountState {
+  id: number;
+  email?: string;
+  username?: string;
+  password?: string;
+  deviceIds: string[];
+  thirdPartyAppAssociations: string[];
+  created: string;
+  updated: string;
+}
+
+interface ItemInstanceState {
+  id: string;
+  properties: Array<{ name: string; value: string }>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface InventoryState {
+  currencies: Map<string, { amount: number; properties: Array<{ name: string; value: string }> }>;
+  items: Map<string, ItemInstanceState[]>;
+  transactions: Set<string>;
+}
+
+interface Caller {
+  server: boolean; // Signed with the secret, or sent with the admin token
+  playerId: number | null; // From the bearer token, or X-BEAM-GAMERTAG on signed requests
+}
+
+interface MockRequest {
+  method: string;
+  path: string; // Path and query, exactly as received
+  pathname: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  caller: Caller;
+}
+
+/**
+ * An error response, in the shape of Beamable error bodies.
+ */
+class MockHttpError extends Error {
+  constructor(readonly status: number, readonly error: string, message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000;
+const CONTENT_PATH_PREFIX = '/_content/';
+
+/**
+ * An in-process Beamable backend for tests. It emulates the auth token, account, stats, inventory and
+ * content manifest endpoints against seedable in-memory state, and validates X-BEAM-SCOPE and, for
+ * server-mode requests, X-BEAM-SIGNATURE. Other routes answer 404.
+ *
+ * Import it from '@omen.foundation/beamable-sdk/testing'; it needs Node's http module.
+ *
+ * @example
+ * const server = await MockBeamableServer.start({ seed: { accounts: [{ email: 'a@b.c', password: 'pw' }] } });
+ * configureBeamable(server.config());
+ * const context = await BeamContext.Default; // Logs in as a new guest account on the mock
+ * await server.close();
+ */
+export class MockBeamableServer {
+  readonly cid: string;
+  readonly pid: string;
+  readonly requests: MockRequestRecord[] = [];
+  private options: MockBeamableServerOptions;
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+
+  private accounts = new Map<number, AccountState>();
+  private accessTokens = new Map<string, { playerId: number; expiresAt: number }>();
+  private refreshTokens = new Map<string, number>();
+  private stats = new Map<string, Record<string, any>>();
+  private inventories = new Map<number, InventoryState>();
+  private content = new Map<string, Map<string, { content: any; tags: string[]; checksum: string }>>();
+  private nextAccountId = 1;
+  private nextInstanceId = 1;
+  private nextToken = 1;
+
+  constructor(options: MockBeamableServerOptions = {}) {
+    this.options = options;
+    this.cid = options.cid ?? 'mock-cid';
+    this.pid = options.pid ?? 'mock-pid';
+    if (options.seed) this.seed(options.seed);
+  }
+
+  /**
+   * Create a server and start listening.
+   */
+  static async start(options: MockBeamableServerOptions = {}): Promise<MockBeamableServer> {
+    const server = new MockBeamableServer(options);
+    await server.listen();
+    return server;
+  }
+
+  /** The base URL to use as apiUrl. Throws before listen(). */
+  get url(): string {
+    if (!this.baseUrl) throw new Error('MockBeamableServer is not listening. Call listen() or MockBeamableServer.start().');
+    return this.baseUrl;
+  }
+
+  /**
+   * Start listening.
+   * @returns The base URL
+   */
+  async listen(): Promise<string> {
+    if (this.baseUrl) return this.baseUrl;
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 500, service: 'mock', error: 'InternalError', message: String(error?.message ?? error) }));
+      });
+    });
+    const host = this.options.host ?? '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, host, () => resolve());
+    });
+    this.server = server;
+    this.baseUrl = `http://${host}:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /** Stop listening and drop open connections. */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    this.baseUrl = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * A BeamableConfig pointing at this server.
+   * @param overrides Merged into the config, e.g. { tokenStorage }
+   */
+  config(overrides: Partial<BeamableConfig> = {}): BeamableConfig {
+    return { cid: this.cid, pid: this.pid, apiUrl: this.url, ...overrides };
+  }
+
+  /**
+   * A server-mode BeamableConfig pointing at this server, using the configured secret or else the admin token.
+   */
+  serverConfig(overrides: Partial<BeamableConfig> = {}): BeamableConfig {
+    const { secret, adminToken } = this.options;
+    if (!secret && !adminToken) throw new Error('MockBeamableServer needs a secret or an adminToken for server mode');
+    return this.config({ mode: 'server', ...(secret ? { secret } : { adminToken }), ...overrides });
+  }
+
+  /**
+   * Add accounts, stats, inventories and content to the current state.
+   */
+  seed(seed: MockBeamableSeed): void {
+    seed.accounts?.forEach((account) => this.createAccount(account));
+    for (const [objectId, stats] of Object.entries(seed.stats ?? {})) {
+      this.stats.set(objectId, { ...this.stats.get(objectId), ...stats });
+    }
+    for (const [playerId, inventory] of Object.entries(seed.inventories ?? {})) {
+      const state = this.inventoryFor(Number(playerId));
+      for (const [id, amount] of Object.entries(inventory.currencies ?? {})) {
+        state.currencies.set(id, { amount, properties: [] });
+      }
+      for (const [contentId, instances] of Object.entries(inventory.items ?? {})) {
+        const list = state.items.get(contentId) ?? [];
+        instances.forEach((properties) => list.push(this.createInstance(toProperties(properties))));
+        state.items.set(contentId, list);
+      }
+    }
+    seed.content?.forEach((entry) => this.setContent(entry));
+  }
+
+  /** Clear all state and recorded requests, then apply the seed passed to the constructor again. */
+  reset(): void {
+    this.accounts.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+    this.stats.clear();
+    this.inventories.clear();
+    this.content.clear();
+    this.requests.length = 0;
+    this.nextAccountId = 1;
+    this.nextInstanceId = 1;
+    if (this.options.seed) this.seed(this.options.seed);
+  }
+
+  /**
+   * Create an account directly, without a request.
+   * @returns The account id
+   */
+  createAccount(account: MockAccount = {}): number {
+    const id = account.id ?? this.nextAccountId;
+    this.nextAccountId = Math.max(this.nextAccountId, id + 1);
+    const now = new Date().toISOString();
+    this.accounts.set(id, {
+      id,
+      email: account.email,
+      username: account.username,
+      password: account.password,
+      deviceIds: [...(account.deviceIds ?? [])],
+      thirdPartyAppAssociations: [],
+      created: now,
+      updated: now,
+    });
+    return id;
+  }
+
+  /** The account as GET /basic/accounts/me returns it, or undefined. */
+  getAccount(playerId: number): Record<string, any> | undefined {
+    const account = this.accounts.get(playerId);
+    return account && toAccountResponse(account);
+  }
+
+  /** A copy of the stats stored for an objectId. */
+  getStats(objectId: string): Record<string, any> {
+    return { ...this.stats.get(objectId) };
+  }
+
+  /** The player's inventory as GET /object/inventory/{playerId}/ returns it. */
+  getInventory(playerId: number | string): Record<string, any> {
+    return toInventoryResponse(this.inventoryFor(Number(playerId)), []);
+  }
+
+  /**
+   * Add or replace a content object. The manifest checksum changes, so ContentModule picks it up.
+   */
+  setContent(entry: MockContentEntry): void {
+    const key = manifestKey(entry.visibility ?? 'public', entry.manifestId ?? 'global');
+    const manifest = this.content.get(key) ?? new Map();
+    const checksum = md5Hex(JSON.stringify(entry.content));
+    manifest.set(entry.id, { content: entry.content, tags: entry.tags ?? [], checksum });
+    this.content.set(key, manifest);
+  }
+
+  /** Remove a content object from a manifest. */
+  removeContent(contentId: string, manifestId = 'global', visibility: 'public' | 'private' = 'public'): void {
+    this.content.get(manifestKey(visibility, manifestId))?.delete(contentId);
+  }
+
+  /** Expire every access token, so the next authenticated request gets a 401 and must refresh. */
+  expireAccessTokens(): void {
+    for (const token of this.accessTokens.values()) token.expiresAt = 0;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method ?? 'GET').toUpperCase();
+    const path = req.url ?? '/';
+    const url = new URL(path, 'http://mock');
+    const rawBody = await readBody(req);
+    let caller: Caller = { server: false, playerId: null };
+    let status = 200;
+    let payload: any;
+    try {
+      if (method === 'GET' && url.pathname.startsWith(CONTENT_PATH_PREFIX)) {
+        payload = this.serveContent(url.pathname); // The CDN takes no Beamable headers
+      } else {
+        caller = this.authenticate(method, path, req.headers, rawBody);
+        let body: any;
+        try {
+          body = rawBody ? JSON.parse(rawBody) : undefined;
+        } catch {
+          throw new MockHttpError(400, 'InvalidJson', 'The request body is not valid JSON');
+        }
+        payload = this.route({ method, path, pathname: url.pathname, query: url.searchParams, headers: req.headers, body, caller });
+      }
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error;
+      status = error.status;
+      payload = { status, service: 'mock', error: error.error, message: error.message };
+    }
+    this.requests.push({ method, path, status, playerId: caller.playerId, server: caller.server });
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload ?? {}));
+  }
+
+  /**
+   * Check X-BEAM-SCOPE, then identify the caller from X-BEAM-SIGNATURE or the bearer token.
+   */
+  private authenticate(method: string, path: string, headers: http.IncomingHttpHeaders, rawBody: string): Caller {
+    const scope = header(headers, 'x-beam-scope');
+    if (!scope) throw new MockHttpError(400, 'MissingScope', 'X-BEAM-SCOPE header is required');
+    if (scope !== `${this.cid}.${this.pid}`) {
+      throw new MockHttpError(403, 'InvalidScope', `X-BEAM-SCOPE ${scope} does not match ${this.cid}.${this.pid}`);
+    }
+
+    const signature = header(headers, 'x-beam-signature');
+    if (signature) {
+      // Signature: Base64(MD5(secret + pid + version + path and query + body)); DELETE bodies are not signed
+      const secret = this.options.secret;
+      const signed = `${secret}${this.pid}1${path}${method !== 'DELETE' ? rawBody : ''}`;
+      if (!secret || signature !== CryptoJS.enc.Base64.stringify(CryptoJS.MD5(signed))) {
+        throw new MockHttpError(401, 'InvalidSignature', 'X-BEAM-SIGNATURE does not match the request');
+      }
+      const gamertag = header(headers, 'x-beam-gamertag');
+      return { server: true, playerId: gamertag ? Number(gamertag) : null };
+    }
+
+    const authorization = header(headers, 'authorization');
+    if (authorization) {
+      const bearer = authorization.replace(/^Bearer\s+/i, '');
+      if (this.options.adminToken && bearer === this.options.adminToken) {
+        const gamertag = header(headers, 'x-beam-gamertag');
+        return { server: true, playerId: gamertag ? Number(gamertag) : null };
+      }
+      const token = this.accessTokens.get(bearer);
+      if (!token || token.expiresAt <= Date.now()) {
+        throw new MockHttpError(401, 'InvalidTokenError', 'The access token is invalid or expired');
+      }
+      return { server: false, playerId: token.playerId };
+    }
+    return { server: false, playerId: null };
+  }
+
+  private route(req: MockRequest): any {
+    const { method, pathname } = req;
+    let match: RegExpMatchArray | null;
+
+    if (pathname === '/basic/auth/token' && method === 'POST') return this.token(req);
+
+    if (pathname === '/basic/accounts/me') {
+      const account = this.requireAccount(req);
+      if (method === 'GET') return toAccountResponse(account);
+      if (method === 'PUT') return this.updateAccount(account, req.body ?? {});
+    }
+    if (pathname === '/basic/accounts/register' && method === 'POST') return this.register(req);
+    if (pathname === '/basic/accounts/available' && method === 'GET') {
+      const email = req.query.get('email') ?? '';
+      return { available: !this.findAccount(email) };
+    }
+
+    if ((match = pathname.match(/^\/object\/stats\/([^/]+)\/client$/))) {
+      const objectId = decodeURIComponent(match[1]);
+      if (method === 'GET') return this.readStats(req, objectId);
+      if (method === 'POST') return this.writeStats(req, objectId, req.body ?? {}, {});
+    }
+    if ((match = pathname.match(/^\/object\/stats\/([^/]+)\/?$/))) {
+      const objectId = decodeURIComponent(match[1]);
+      if (method === 'GET') return this.readStats(req, objectId);
+      if (method === 'POST') return this.writeStats(req, objectId, req.body?.set ?? {}, req.body?.add ?? {});
+      if (method === 'DELETE') return this.deleteStats(req, objectId);
+    }
+
+    if ((match = pathname.match(/^\/object\/inventory\/([^/]+)\/(preview|transfer)?$/))) {
+      const playerId = this.requireInventoryAccess(req, Number(match[1]));
+      const action = match[2];
+      if (!action && method === 'GET') return toInventoryResponse(this.inventoryFor(playerId), []);
+      if (!action && method === 'POST') return toInventoryResponse(this.inventoryFor(playerId), req.body?.scopes ?? []);
+      if (!action && method === 'PUT') return this.updateInventory(playerId, req.body ?? {});
+      if (action === 'preview' && method === 'PUT') return this.previewInventory(playerId, req.body ?? {});
+      if (action === 'transfer' && method === 'PUT') return this.transfer(playerId, req.body ?? {});
+    }
+
+    if ((match = pathname.match(/^\/basic\/content\/manifest\/(public|private)\/json$/)) && method === 'GET') {
+      const visibility = match[1] as 'public' | 'private';
+      if (visibility === 'private' && !req.caller.server) {
+        throw new MockHttpError(403, 'Forbidden', 'Private manifests need a signed server-mode request');
+      }
+      return this.manifest(visibility, req.query.get('id') ?? 'global');
+    }
+
+    throw new MockHttpError(404, 'NotFound', `No mock route for ${method} ${pathname}`);
+  }
+
+  private token(req: MockRequest): any {
+    const body = req.body ?? {};
+    let playerId: number;
+    switch (body.grant_type) {
+      case 'guest':
+        playerId = this.createAccount();
+        break;
+      case 'password': {
+        const account = this.findAccount(body.username);
+        if (!account || account.password === undefined || account.password !== body.password) {
+          throw new MockHttpError(401, 'InvalidCredentials', 'Invalid username or password');
+        }
+        playerId = account.id;
+        break;
+      }
+      case 'device': {
+        const account = [...this.accounts.values()].find((a) => a.deviceIds.includes(body.client_id));
+        if (!account) throw new MockHttpError(401, 'InvalidCredentials', `No account has device ${body.client_id}`);
+        playerId = account.id;
+        break;
+      }
+      case 'refresh_token': {
+        const owner = this.refreshTokens.get(body.refresh_token);
+        if (owner === undefined) throw new MockHttpError(401, 'InvalidRefreshToken', 'The refresh token is invalid');
+        playerId = owner;
+        break;
+      }
+      default:
+        throw new MockHttpError(400, 'UnsupportedGrantType', `The mock does not support grant_type ${body.grant_type}`);
+    }
+
+    const ttl = this.options.tokenTtlMs ?? DEFAULT_TOKEN_TTL_MS;
+    const accessToken = `mock-access-${this.nextToken}`;
+    const refreshToken = body.grant_type === 'refresh_token' ? body.refresh_token : `mock-refresh-${this.nextToken}`;
+    this.nextToken++;
+    this.accessTokens.set(accessToken, { playerId, expiresAt: Date.now() + ttl });
+    this.refreshTokens.set(refreshToken, playerId);
+    return { access_token: accessToken, refresh_token: refreshToken, expires_in: ttl, token_type: 'token' };
+  }
+
+  private register(req: MockRequest): any {
+    const account = this.requireAccount(req);
+    const { email, password } = req.body ?? {};
+    if (!email || !password) throw new MockHttpError(400, 'InvalidRequest', 'email and password are required');
+    const existing = this.findAccount(email);
+    if (existing && existing.id !== account.id) {
+      throw new MockHttpError(400, 'EmailAlreadyRegisteredError', `${email} is already registered`);
+    }
+    account.email = email;
+    account.password = password;
+    account.updated = new Date().toISOString();
+    return toAccountResponse(account);
+  }
+
+  private updateAccount(account: AccountState, body: Record<string, any>): any {
+    if (body.deviceId && !account.deviceIds.includes(body.deviceId)) account.deviceIds.push(body.deviceId);
+    if (body.thirdParty && !account.thirdPartyAppAssociations.includes(body.thirdParty)) {
+      account.thirdPartyAppAssociations.push(body.thirdParty);
+    }
+    if (typeof body.username === 'string') account.username = body.username;
+    account.updated = new Date().toISOString();
+    return toAccountResponse(account);
+  }
+
+  private readStats(req: MockRequest, objectId: string): any {
+    this.requireStatsAccess(req, objectId, 'read');
+    return { id: objectId, stats: { ...this.stats.get(objectId) } };
+  }
+
+  private writeStats(req: MockRequest, objectId: string, set: Record<string, any>, add: Record<string, any>): any {
+    this.requireStatsAccess(req, objectId, 'write');
+    const stats = { ...this.stats.get(objectId), ...set };
+    for (const [key, delta] of Object.entries(add)) {
+      if (typeof delta !== 'number') throw new MockHttpError(400, 'InvalidStat', `Cannot add non-numeric value to ${key}`);
+      stats[key] = Number(stats[key] ?? 0) + delta;
+    }
+    this.stats.set(objectId, stats);
+    return { result: 'ok', data: {} };
+  }
+
+  private deleteStats(req: MockRequest, objectId: string): any {
+    this.requireStatsAccess(req, objectId, 'write');
+    const keys: string[] = [].concat(req.body?.stats ?? []);
+    const stats = { ...this.stats.get(objectId) };
+    keys.forEach((key) => delete stats[key]);
+    this.stats.set(objectId, stats);
+    return { result: 'ok', data: {} };
+  }
+
+  /**
+   * Stats object ids look like '{domain}.{access}.player.{playerId}'. Signed requests may do anything;
+   * players may read public stats, read their own private stats, and write their own client stats.
+   */
+  private requireStatsAccess(req: MockRequest, objectId: string, access: 'read' | 'write') {
+    if (req.caller.server) return;
+    const playerId = this.requireAccount(req).id;
+    const [domain, visibility, , owner] = objectId.split('.');
+    const isOwn = Number(owner) === playerId;
+    const allowed = access === 'read' ? visibility === 'public' || isOwn : domain === 'client' && isOwn;
+    if (!allowed) throw new MockHttpError(403, 'Forbidden', `Player ${playerId} may not ${access} ${objectId}`);
+  }
+
+  private requireInventoryAccess(req: MockRequest, playerId: number): number {
+    if (!Number.isFinite(playerId)) throw new MockHttpError(400, 'InvalidPlayerId', 'The player id must be a number');
+    if (req.caller.server) return playerId;
+    const caller = this.requireAccount(req).id;
+    if (caller !== playerId) throw new MockHttpError(403, 'Forbidden', `Player ${caller} may not access the inventory of ${playerId}`);
+    return playerId;
+  }
+
+  private updateInventory(playerId: number, body: Record<string, any>): any {
+    const inventory = this.inventoryFor(playerId);
+    if (body.transaction && inventory.transactions.has(body.transaction)) return { result: 'ok', data: {} };
+
+    // Apply to a copy, so a failing operation leaves the inventory untouched
+    const next = cloneInventory(inventory);
+    applyCurrencies(next, body.currencies ?? {});
+    for (const [id, properties] of Object.entries<Array<{ name: string; value: string }>>(body.currencyProperties ?? {})) {
+      const currency = next.currencies.get(id) ?? { amount: 0, properties: [] };
+      next.currencies.set(id, { ...currency, properties });
+    }
+    for (const item of body.newItems ?? []) {
+      const list = next.items.get(item.contentId) ?? [];
+      list.push(this.createInstance(item.properties ?? []));
+      next.items.set(item.contentId, list);
+    }
+    for (const item of body.updateItems ?? []) {
+      const instance = findInstance(next, item.contentId, item.id);
+      instance.properties = item.properties ?? [];
+      instance.updatedAt = Date.now();
+    }
+    for (const item of body.deleteItems ?? []) {
+      findInstance(next, item.contentId, item.id);
+      next.items.set(item.contentId, next.items.get(item.contentId)!.filter((i) => i.id !== item.id));
+    }
+
+    if (body.transaction) next.transactions.add(body.transaction);
+    this.inventories.set(playerId, next);
+    return { result: 'ok', data: {} };
+  }
+
+  private previewInventory(playerId: number, body: Record<string, any>): any {
+    const inventory = this.inventoryFor(playerId);
+    const currencies = Object.entries<number>(body.currencies ?? {}).map(([id, delta]) => {
+      const originalAmount = inventory.currencies.get(id)?.amount ?? 0;
+      return { id, amount: originalAmount + delta, originalAmount, delta };
+    });
+    return { currencies };
+  }
+
+  private transfer(playerId: number, body: Record<string, any>): any {
+    const sender = this.inventoryFor(playerId);
+    if (body.transaction && sender.transactions.has(body.transaction)) return { result: 'ok', data: {} };
+    const recipientId = Number(body.recipientPlayer);
+    if (!this.accounts.has(recipientId)) throw new MockHttpError(404, 'PlayerNotFound', `Player ${body.recipientPlayer} does not exist`);
+    const amounts: Record<string, number> = body.currencies ?? {};
+
+    const nextSender = cloneInventory(sender);
+    applyCurrencies(nextSender, Object.fromEntries(Object.entries(amounts).map(([id, amount]) => [id, -amount])));
+    const nextRecipient = cloneInventory(this.inventoryFor(recipientId));
+    applyCurrencies(nextRecipient, amounts);
+
+    if (body.transaction) nextSender.transactions.add(body.transaction);
+    this.inventories.set(playerId, nextSender);
+    this.inventories.set(recipientId, nextRecipient);
+    return { result: 'ok', data: {} };
+  }
+
+  private manifest(visibility: 'public' | 'private', manifestId: string): any {
+    const entries = [...(this.content.get(manifestKey(visibility, manifestId)) ?? new Map())].map(([contentId, entry]) => ({
+      contentId,
+      version: entry.checksum,
+      checksum: entry.checksum,
+      tags: entry.tags,
+      type: 'content',
+      visibility,
+      uri: `${this.url}${CONTENT_PATH_PREFIX}${visibility}/${encodeURIComponent(manifestId)}/${encodeURIComponent(contentId)}/${entry.checksum}.json`,
+    }));
+    return {
+      id: manifestId,
+      checksum: md5Hex(entries.map((e) => `${e.contentId}:${e.checksum}`).join(',')),
+      created: Date.now(),
+      entries,
+    };
+  }
+
+  private serveContent(pathname: string): any {
+    const [visibility, manifestId, contentId, file] = pathname.slice(CONTENT_PATH_PREFIX.length).split('/').map(decodeURIComponent);
+    const entry = this.content.get(manifestKey(visibility, manifestId))?.get(contentId);
+    if (!entry || `${entry.checksum}.json` !== file) {
+      throw new MockHttpError(404, 'ContentNotFound', `No content ${contentId} with that checksum`);
+    }
+    return entry.content;
+  }
+
+  private requireAccount(req: MockRequest): AccountState {
+    const { playerId, server } = req.caller;
+    if (playerId === null) {
+      throw server
+        ? new MockHttpError(400, 'MissingGamertag', 'Signed requests for a player need X-BEAM-GAMERTAG')
+        : new MockHttpError(401, 'NoAuthHeader', 'This route needs an access token');
+    }
+    const account = this.accounts.get(playerId);
+    if (!account) throw new MockHttpError(404, 'PlayerNotFound', `Player ${playerId} does not exist`);
+    return account;
+  }
+
+  private findAccount(emailOrUsername: string): AccountState | undefined {
+    return [...this.accounts.values()].find((a) => a.email === emailOrUsername || a.username === emailOrUsername);
+  }
+
+  private inventoryFor(playerId: number): InventoryState {
+    let inventory = this.inventories.get(playerId);
+    if (!inventory) {
+      inventory = { currencies: new Map(), items: new Map(), transactions: new Set() };
+      this.inventories.set(playerId, inventory);
+    }
+    return inventory;
+  }
+
+  private createInstance(properties: Array<{ name: string; value: string }>): ItemInstanceState {
+    const now = Date.now();
+    return { id: String(this.nextInstanceId++), properties, createdAt: now, updatedAt: now };
+  }
+}
+
+function toAccountResponse(account: AccountState): Record<string, any> {
+  return {
+    id: account.id,
+    email: account.email,
+    username: account.username,
+    scopes: [],
+    thirdPartyAppAssociations: [...account.thirdPartyAppAssociations],
+    deviceIds: [...account.deviceIds],
+    created: account.created,
+    updated: account.updated,
+  };
+}
+
+function toInventoryResponse(inventory: InventoryState, scopes: string[]): Record<string, any> {
+  const inScope = (id: string) => scopes.length === 0 || scopes.some((scope) => id === scope || id.startsWith(`${scope}.`));
+  return {
+    scope: scopes.length ? scopes.join(',') : 'currency,items',
+    currencies: [...inventory.currencies]
+      .filter(([id]) => inScope(id))
+      .map(([id, currency]) => ({ id, amount: currency.amount, properties: currency.properties })),
+    items: [...inventory.items]
+      .filter(([id, instances]) => inScope(id) && instances.length > 0)
+      .map(([id, instances]) => ({ id, items: instances.map((instance) => ({ ...instance })) })),
+  };
+}
+
+function cloneInventory(inventory: InventoryState): InventoryState {
+  return {
+    currencies: new Map([...inventory.currencies].map(([id, c]) => [id, { ...c }])),
+    items: new Map([...inventory.items].map(([id, list]) => [id, list.map((i) => ({ ...i }))])),
+    transactions: new Set(inventory.transactions),
+  };
+}
+
+function applyCurrencies(inventory: InventoryState, deltas: Record<string, number>) {
+  for (const [id, delta] of Object.entries(deltas)) {
+    const currency = inventory.currencies.get(id) ?? { amount: 0, properties: [] };
+    if (currency.amount + delta < 0) {
+      throw new MockHttpError(400, 'InsufficientCurrency', `Not enough ${id}: have ${currency.amount}, need ${-delta}`);
+    }
+    inventory.currencies.set(id, { ...currency, amount: currency.amount + delta });
+  }
+}
+
+function findInstance(inventory: InventoryState, contentId: string, id: string): ItemInstanceState {
+  const instance = inventory.items.get(contentId)?.find((i) => i.id === id);
+  if (!instance) throw new MockHttpError(404, 'ItemNotFound', `No ${contentId} item with id ${id}`);
+  return instance;
+}
+
+function toProperties(properties: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(properties).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function manifestKey(visibility: string, manifestId: string): string {
+  return `${visibility}/${manifestId}`;
+}
+
+function md5Hex(value: string): string {
+  return CryptoJS.MD5(value).toString(CryptoJS.enc.Hex);
+}
+
+function header(headers: http.IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
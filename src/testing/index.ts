@@ -0,0 +1,9 @@
+export { MockBeamableServer } from './MockBeamableServer';
+export type {
+  MockBeamableServerOptions,
+  MockBeamableSeed,
+  MockAccount,
+  MockInventory,
+  MockContentEntry,
+  MockRequestRecord,
+} from './MockBeamableServer';
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseExportContentArgs } from '../src/cli/args';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamableError } from '../src/core/BeamableError';
+import { ContentModule, type ContentBundle } from '../src/modules/Content';
+import { jsonResponse, manifest } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('ContentModule bundles', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let currentManifest: any;
+  let online: boolean;
+
+  beforeEach(() => {
+    online = true;
+    currentManifest = manifest('m1', [
+      { id: 'items.sword', checksum: 'a1' },
+      { id: 'items.shield', checksum: 'b1' },
+    ]);
+    fetchMock = vi.fn(async (url: string) => {
+      if (!online) throw new TypeError('fetch failed');
+      if (url.endsWith('/basic/content/manifest/public/json')) return jsonResponse(currentManifest);
+      const [, id, checksum] = url.match(/cdn\.example\.test\/([^/]+)\/([^/]+)\.json/)!;
+      return jsonResponse({ id, version: checksum });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  async function exportBundle(): Promise<ContentBundle> {
+    const bundle = await new ContentModule(new BeamableCore(config)).exportBundle();
+    return JSON.parse(JSON.stringify(bundle)); // As if read back from a file
+  }
+
+  it('should export the manifest and every entry', async () => {
+    const bundle = await exportBundle();
+
+    expect(bundle.formatVersion).toBe(1);
+    expect(bundle.manifest.checksum).toBe('m1');
+    expect(bundle.content).toEqual({
+      'items.sword': { id: 'items.sword', version: 'a1' },
+      'items.shield': { id: 'items.shield', version: 'b1' },
+    });
+  });
+
+  it('should serve a readonly bundle without the network', async () => {
+    const bundle = await exportBundle();
+    fetchMock.mockClear();
+    const content = new ContentModule(new BeamableCore(config), { bundle, bundleMode: 'readonly' });
+
+    expect(await content.getContent('items.sword')).toEqual({ id: 'items.sword', version: 'a1' });
+    expect(await content.getContentByType('items')).toHaveLength(2);
+    await content.refreshManifest();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the bundle when offline', async () => {
+    const bundle = await exportBundle();
+    online = false;
+    const content = new ContentModule(new BeamableCore(config));
+    content.loadBundle(bundle);
+
+    expect(await content.getContent('items.shield')).toEqual({ id: 'items.shield', version: 'b1' });
+  });
+
+  it('should use the live manifest when reachable and only download changed entries', async () => {
+    const bundle = await exportBundle();
+    currentManifest = manifest('m2', [
+      { id: 'items.sword', checksum: 'a2' },
+      { id: 'items.shield', checksum: 'b1' },
+    ]);
+    fetchMock.mockClear();
+    const content = new ContentModule(new BeamableCore(config), { bundle });
+
+    const items = await content.getContentByType('items');
+
+    expect(items.map((i) => i.version)).toEqual(['a2', 'b1']);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.test/basic/content/manifest/public/json',
+      'https://cdn.example.test/items.sword/a2.json',
+    ]);
+  });
+
+  it('should reject invalid bundles', () => {
+    const content = new ContentModule(new BeamableCore(config));
+    expect(() => content.loadBundle({} as ContentBundle)).toThrow(BeamableError);
+  });
+});
+
+describe('parseExportContentArgs', () => {
+  it('should take the output file as an argument or from --out', () => {
+    expect(parseExportContentArgs([])).toEqual({ outFile: undefined });
+    expect(parseExportContentArgs(['bundle.json'])).toEqual({ outFile: 'bundle.json' });
+    expect(parseExportContentArgs(['--out', 'bundles/content.json'])).toEqual({ outFile: 'bundles/content.json' });
+  });
+
+  it('should reject unknown flags, missing values and two output files', () => {
+    expect(() => parseExportContentArgs(['--output', 'x.json'])).toThrow();
+    expect(() => parseExportContentArgs(['--out'])).toThrow();
+    expect(() => parseExportContentArgs(['a.json', 'b.json'])).toThrow('Pass one output file');
+    expect(() => parseExportContentArgs(['a.json', '--out', 'b.json'])).toThrow('Pass one output file');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { ContentModule } from '../src/modules/Content';
+import { jsonResponse, manifest } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('ContentModule caching', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let currentManifest: any;
+
+  beforeEach(() => {
+    currentManifest = manifest('m1', [
+      { id: 'items.sword', checksum: 'a1' },
+      { id: 'items.shield', checksum: 'b1' },
+    ]);
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/basic/content/manifest/public/json')) return jsonResponse(currentManifest);
+      const [, id, checksum] = url.match(/cdn\.example\.test\/([^/]+)\/([^/]+)\.json/)!;
+      return jsonResponse({ id, version: checksum });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  function manifestRequests() {
+    return fetchMock.mock.calls.filter(([url]) => url.includes('/manifest/')).length;
+  }
+
+  function cdnRequests() {
+    return fetchMock.mock.calls.filter(([url]) => url.startsWith('https://cdn.example.test')).length;
+  }
+
+  it('should fetch the manifest once for concurrent and repeated lookups', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+
+    await Promise.all([content.getContent('items.sword'), content.getContent('items.shield'), content.getContentByType('items')]);
+    await content.getContent('items.sword');
+
+    expect(manifestRequests()).toBe(1);
+    expect(cdnRequests()).toBe(2);
+  });
+
+  it('should refetch the manifest after the TTL and only download changed entries', async () => {
+    vi.useFakeTimers();
+    const content = new ContentModule(new BeamableCore(config), { manifestTtlMs: 1000 });
+    await content.getContentByType('items');
+
+    currentManifest = manifest('m2', [
+      { id: 'items.sword', checksum: 'a2' },
+      { id: 'items.shield', checksum: 'b1' },
+    ]);
+    vi.advanceTimersByTime(500);
+    expect((await content.getContent('items.sword')).version).toBe('a1'); // Still within the TTL
+
+    vi.advanceTimersByTime(600);
+    const items = await content.getContentByType('items');
+
+    expect(items.map((i) => i.version)).toEqual(['a2', 'b1']);
+    expect(manifestRequests()).toBe(2);
+    expect(cdnRequests()).toBe(3);
+  });
+
+  it('should bypass the TTL with refreshManifest', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+    await content.getContent('items.sword');
+
+    currentManifest = manifest('m2', [{ id: 'items.sword', checksum: 'a2' }]);
+    await content.refreshManifest();
+
+    expect((await content.getContent('items.sword')).version).toBe('a2');
+    await expect(content.getContent('items.shield')).rejects.toThrow('Content not found: items.shield');
+  });
+
+  it('should not cache failed downloads', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+    fetchMock.mockImplementationOnce(async () => jsonResponse(currentManifest));
+    fetchMock.mockImplementationOnce(async () => jsonResponse({ error: 'Unavailable' }, 503));
+
+    await expect(content.getContent('items.sword')).rejects.toThrow();
+    expect((await content.getContent('items.sword')).version).toBe('a1');
+  });
+});
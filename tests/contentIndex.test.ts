@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { renderContentIndex } from '../src/cli/contentIndex';
+
+describe('renderContentIndex', () => {
+  const output = renderContentIndex([
+    { contentType: 'Minions', typeName: 'Minions', fileName: 'Minions', contentIds: ['Minions.GoblinBlue'] },
+    {
+      contentType: 'AbilityMaps',
+      typeName: 'AbilityMaps',
+      fileName: 'AbilityMaps',
+      contentIds: ['AbilityMaps.VitalityAura', 'AbilityMaps.AlliedStrength'],
+    },
+  ]);
+
+  it('should import and re-export every generated type', () => {
+    expect(output).toContain("import type { AbilityMaps } from './AbilityMaps';\nimport type { Minions } from './Minions';");
+    expect(output).toContain('export type { AbilityMaps, Minions };');
+  });
+
+  it('should map content types and ids to their types', () => {
+    expect(output).toContain("export interface ContentTypes {\n  'AbilityMaps': AbilityMaps;\n  'Minions': Minions;\n}");
+    expect(output).toContain(
+      "export interface ContentIds {\n  'AbilityMaps.AlliedStrength': AbilityMaps;\n  'AbilityMaps.VitalityAura': AbilityMaps;\n  'Minions.GoblinBlue': Minions;\n}"
+    );
+    expect(output).toContain('export type ContentId = keyof ContentIds;');
+  });
+
+  it('should register the types with the SDK', () => {
+    expect(output).toContain("declare module '@omen.foundation/beamable-sdk' {");
+    expect(output).toContain('  interface ContentTypeRegistry extends ContentTypes {}');
+    expect(output).toContain('  interface ContentIdRegistry extends ContentIds {}');
+  });
+
+  it('should escape quotes in ids', () => {
+    const escaped = renderContentIndex([{ contentType: 'items', typeName: 'Items', fileName: 'items', contentIds: ["items.It's"] }]);
+    expect(escaped).toContain("  'items.It\\'s': Items;");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import CryptoJS from 'crypto-js';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamableError } from '../src/core/BeamableError';
+import { ContentModule } from '../src/modules/Content';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('ContentModule manifests', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => {
+      const parsed = new URL(url);
+      if (parsed.pathname.startsWith('/basic/content/manifest/')) {
+        const manifestId = parsed.searchParams.get('id') ?? 'global';
+        const visibility = parsed.pathname.includes('/private/') ? 'private' : 'public';
+        return jsonResponse({
+          checksum: `${visibility}-${manifestId}`,
+          entries: [{ contentId: 'items.pass', checksum: manifestId, uri: `https://cdn.example.test/${visibility}/${manifestId}/items.pass.json` }],
+        });
+      }
+      return jsonResponse({ id: 'items.pass', source: parsed.pathname });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function requestedUrls() {
+    return fetchMock.mock.calls.map(([url]) => url);
+  }
+
+  it('should read the default manifest without an id parameter', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+    await content.getContent('items.pass');
+    expect(requestedUrls()[0]).toBe('https://api.example.test/basic/content/manifest/public/json');
+  });
+
+  it('should cache each manifest id separately', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+
+    const global = await content.getContent('items.pass');
+    const season = await content.getContent('items.pass', { manifestId: 'season-3' });
+    await content.getContentByType('items', { manifestId: 'season-3' });
+
+    expect(global.source).toBe('/public/global/items.pass.json');
+    expect(season.source).toBe('/public/season-3/items.pass.json');
+    expect(requestedUrls().filter((url) => url.includes('/manifest/'))).toEqual([
+      'https://api.example.test/basic/content/manifest/public/json',
+      'https://api.example.test/basic/content/manifest/public/json?id=season-3',
+    ]);
+  });
+
+  it('should use the configured default manifest', async () => {
+    const content = new ContentModule(new BeamableCore(config), { manifestId: 'season-3' });
+    expect((await content.getContent('items.pass')).source).toBe('/public/season-3/items.pass.json');
+  });
+
+  it('should sign private manifest requests in server mode', async () => {
+    const core = new BeamableCore({ ...config, mode: 'server', secret: 'shh' });
+    const content = new ContentModule(core);
+
+    const pass = await content.getContent('items.pass', { visibility: 'private', manifestId: 'season-3' });
+
+    expect(pass.source).toBe('/private/season-3/items.pass.json');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.test/basic/content/manifest/private/json?id=season-3');
+    const expected = CryptoJS.enc.Base64.stringify(CryptoJS.MD5('shhtest-pid1/basic/content/manifest/private/json?id=season-3'));
+    expect(init.headers['X-BEAM-SIGNATURE']).toBe(expected);
+  });
+
+  it('should refuse private manifests in client mode without sending a request', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+
+    await expect(content.getPrivateManifest()).rejects.toThrow('Private content manifests need server mode');
+    await expect(content.getContent('items.pass', { visibility: 'private' })).rejects.toBeInstanceOf(BeamableError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should export and reload bundles for their manifest', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+    const bundle = await content.exportBundle({ manifestId: 'season-3' });
+    expect(bundle.manifestId).toBe('season-3');
+
+    const offline = new ContentModule(new BeamableCore(config), { bundle, bundleMode: 'readonly' });
+    fetchMock.mockClear();
+    expect((await offline.getContent('items.pass', { manifestId: 'season-3' })).source).toBe('/public/season-3/items.pass.json');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
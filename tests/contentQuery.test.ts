@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { ContentModule } from '../src/modules/Content';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+const catalog: Array<{ id: string; tags: string[]; reward: number }> = [
+  { id: 'items.Quest.Daily1', tags: ['daily'], reward: 10 },
+  { id: 'items.Quest.Weekly1', tags: ['weekly', 'featured'], reward: 200 },
+  { id: 'items.Quest.Weekly2', tags: ['weekly'], reward: 50 },
+  { id: 'items.Quest.Weekly3', tags: ['weekly'], reward: 300 },
+  { id: 'items.Sword', tags: ['featured'], reward: 0 },
+  { id: 'currency.Gold', tags: [], reward: 0 },
+];
+
+describe('ContentModule.query', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let content: ContentModule;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/basic/content/manifest/public/json')) {
+        return jsonResponse({
+          checksum: 'm1',
+          entries: catalog.map((c) => ({ contentId: c.id, tags: c.tags, checksum: c.id, uri: `https://cdn.example.test/${c.id}.json` })),
+        });
+      }
+      const id = url.slice('https://cdn.example.test/'.length, -'.json'.length);
+      const item = catalog.find((c) => c.id === id)!;
+      return jsonResponse({ id, properties: { reward: { data: item.reward } } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    content = new ContentModule(new BeamableCore(config));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function downloads() {
+    return fetchMock.mock.calls.filter(([url]) => url.startsWith('https://cdn.example.test')).map(([url]) => url);
+  }
+
+  it('should filter manifest entries before downloading', async () => {
+    const entries = await content.query().ofType('items.Quest').withTags('weekly').matching('items.*.Weekly*').entries();
+
+    expect(entries.map((e) => e.contentId)).toEqual(['items.Quest.Weekly1', 'items.Quest.Weekly2', 'items.Quest.Weekly3']);
+    expect(downloads()).toHaveLength(0);
+  });
+
+  it('should match any of several tags and types', async () => {
+    const entries = await content.query().ofType('items', 'currency').withAnyTag('daily', 'featured').entries();
+    expect(entries.map((e) => e.contentId)).toEqual(['items.Quest.Daily1', 'items.Quest.Weekly1', 'items.Sword']);
+  });
+
+  it('should paginate before downloading when there are no content predicates', async () => {
+    const page = await content.query().ofType('items.Quest').page(1, 2).fetch();
+
+    expect(page.map((c) => c.id)).toEqual(['items.Quest.Weekly2', 'items.Quest.Weekly3']);
+    expect(downloads()).toHaveLength(2);
+  });
+
+  it('should filter by content predicates and stop downloading once the page is full', async () => {
+    const rich = await content
+      .query()
+      .ofType('items.Quest')
+      .where((c) => c.properties.reward.data >= 100)
+      .limit(1)
+      .concurrency(2)
+      .fetch();
+
+    expect(rich.map((c) => c.id)).toEqual(['items.Quest.Weekly1']);
+    expect(downloads()).toHaveLength(2); // One batch of two, not all four
+  });
+
+  it('should keep getContentByType matching whole type segments', async () => {
+    const items = await content.getContentByType('items.Quest');
+    expect(items).toHaveLength(4);
+    expect(await content.query().ofType('items.Que').entries()).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findContentReferences, resolveContentGraph } from '../src/modules/ContentReferences';
+
+const content: Record<string, any> = {
+  'AbilityMaps.VitalityAura': {
+    id: 'AbilityMaps.VitalityAura',
+    properties: {
+      summon: { data: { minion: 'Minions.GoblinBlue', label: 'not a reference' } },
+      reward: { $link: 'items.sword' },
+    },
+  },
+  'Minions.GoblinBlue': {
+    id: 'Minions.GoblinBlue',
+    properties: { ability: { $link: 'AbilityMaps.VitalityAura' }, drops: { $links: ['items.sword', 'items.removed'] } },
+  },
+  'items.sword': { id: 'items.sword', properties: {} },
+};
+const manifestIds = new Set(Object.keys(content));
+
+describe('findContentReferences', () => {
+  it('should find explicit links and manifest ids', () => {
+    const refs = findContentReferences(content['AbilityMaps.VitalityAura'], (value) => manifestIds.has(value));
+
+    expect(refs).toEqual([
+      { path: 'properties.summon.data.minion', contentId: 'Minions.GoblinBlue' },
+      { path: 'properties.reward.$link', contentId: 'items.sword' },
+    ]);
+  });
+
+  it('should find $links arrays', () => {
+    const refs = findContentReferences(content['Minions.GoblinBlue']);
+    expect(refs.map((r) => r.path)).toEqual(['properties.ability.$link', 'properties.drops.$links[0]', 'properties.drops.$links[1]']);
+  });
+});
+
+describe('resolveContentGraph', () => {
+  const load = vi.fn(async (id: string) => content[id]);
+
+  it('should load references eagerly up to the depth and detect cycles', async () => {
+    load.mockClear();
+    const graph = await resolveContentGraph('AbilityMaps.VitalityAura', manifestIds, load, { depth: 2 });
+
+    const minion = graph.root.get('properties.summon.data.minion')!;
+    expect(minion.content.id).toBe('Minions.GoblinBlue');
+    expect(graph.root.get('properties.reward')!.id).toBe('items.sword');
+
+    const back = minion.links.find((l) => l.contentId === 'AbilityMaps.VitalityAura')!;
+    expect(back.cycle).toBe(true);
+    expect(back.node).toBe(graph.root);
+    expect(minion.links.find((l) => l.contentId === 'items.removed')).toMatchObject({ missing: true, node: null });
+
+    expect(load).toHaveBeenCalledTimes(3); // Every object loaded once
+    expect([...graph.nodes.keys()].sort()).toEqual(['AbilityMaps.VitalityAura', 'Minions.GoblinBlue', 'items.sword']);
+  });
+
+  it('should stop at the depth limit', async () => {
+    const graph = await resolveContentGraph('Minions.GoblinBlue', manifestIds, load, { depth: 0 });
+    expect(graph.nodes.size).toBe(1);
+    expect(graph.root.links.every((l) => l.node === null)).toBe(true);
+  });
+
+  it('should load lazily on demand', async () => {
+    load.mockClear();
+    const graph = await resolveContentGraph('AbilityMaps.VitalityAura', manifestIds, load, { eager: false });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    const minion = await graph.root.links[0].load();
+    expect(minion.depth).toBe(1);
+    expect(graph.root.get('properties.summon.data.minion')).toBe(minion);
+    expect(graph.nodes.get('Minions.GoblinBlue')).toBe(minion);
+  });
+});
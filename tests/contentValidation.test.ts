@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamableValidationError } from '../src/core/BeamableError';
+import { ContentModule } from '../src/modules/Content';
+import { jsonSchemaValidator, validateJsonSchema } from '../src/modules/ContentValidation';
+import { inferSchema, renderJsonSchema } from '../src/cli/inferTypes';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+const minionSchema = renderJsonSchema(
+  inferSchema([
+    { id: 'Minions.A', properties: { hp: { data: 10 }, tags: { data: ['fast'] } } },
+    { id: 'Minions.B', properties: { hp: { data: 12 }, tags: { data: [] }, boss: { data: true } } },
+  ]),
+  'Minions'
+);
+
+describe('validateJsonSchema', () => {
+  it('should accept every sample the schema was inferred from', () => {
+    expect(validateJsonSchema(minionSchema, { id: 'Minions.A', properties: { hp: { data: 10 }, tags: { data: ['fast'] } } })).toEqual([]);
+  });
+
+  it('should report the path of each broken field', () => {
+    const issues = validateJsonSchema(minionSchema, {
+      id: 'Minions.C',
+      properties: { hp: { data: 'ten' }, tags: { data: ['fast', 3] } },
+    });
+    expect(issues).toEqual([
+      { path: 'properties.hp.data', message: 'expected number, got string' },
+      { path: 'properties.tags.data[1]', message: 'expected string, got number' },
+    ]);
+  });
+
+  it('should report missing required fields but allow optional and unknown ones', () => {
+    expect(validateJsonSchema(minionSchema, { id: 'Minions.D', properties: { tags: { data: [] }, extra: 1 } })).toEqual([
+      { path: 'properties.hp', message: 'is required' },
+    ]);
+  });
+
+  it('should support anyOf, enum, integer and closed objects', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        reward: { anyOf: [{ type: 'integer' }, { type: 'object', properties: { amount: { type: 'integer' } } }] },
+        rarity: { enum: ['common', 'rare'] },
+      },
+      additionalProperties: false,
+    };
+    expect(validateJsonSchema(schema, { reward: { amount: 5 }, rarity: 'rare' })).toEqual([]);
+    expect(validateJsonSchema(schema, { reward: { amount: 1.5 }, rarity: 'epic', other: true })).toEqual([
+      { path: 'reward.amount', message: 'expected integer, got number' },
+      { path: 'rarity', message: 'expected one of "common", "rare", got "epic"' },
+      { path: 'other', message: 'is not allowed' },
+    ]);
+  });
+});
+
+describe('ContentModule validation', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.endsWith('/basic/content/manifest/public/json')) {
+          return jsonResponse({
+            entries: ['Minions.Good', 'Minions.Broken'].map((id) => ({ contentId: id, checksum: id, uri: `https://cdn.example.test/${id}.json` })),
+          });
+        }
+        if (url.includes('Minions.Good')) return jsonResponse({ id: 'Minions.Good', properties: { hp: { data: 5 }, tags: { data: [] } } });
+        return jsonResponse({ id: 'Minions.Broken', properties: { hp: { data: null }, tags: { data: [] } } });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return valid content and throw a BeamableValidationError naming the broken field', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+    const validate = jsonSchemaValidator(minionSchema);
+
+    await expect(content.getContent('Minions.Good', { validate })).resolves.toMatchObject({ id: 'Minions.Good' });
+
+    const error = await content.getContent('Minions.Broken', { validate }).catch((e) => e);
+    expect(error).toBeInstanceOf(BeamableValidationError);
+    expect(error.contentId).toBe('Minions.Broken');
+    expect(error.issues).toEqual([{ path: 'properties.hp.data', message: 'expected number, got null' }]);
+    expect(error.message).toBe('Content Minions.Broken is invalid at properties.hp.data: expected number, got null');
+  });
+
+  it('should validate every object returned by getContentByType', async () => {
+    const content = new ContentModule(new BeamableCore(config));
+
+    await expect(content.getContentByType('Minions', { validate: jsonSchemaValidator(minionSchema) })).rejects.toMatchObject({
+      name: 'BeamableValidationError',
+      contentId: 'Minions.Broken',
+    });
+    await expect(content.getContentByType('Minions')).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { ContentModule } from '../src/modules/Content';
+import type { ContentChangeNotifier } from '../src/modules/ContentWatcher';
+import { jsonResponse, manifest } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('ContentModule.watch', () => {
+  let currentManifest: any;
+  let content: ContentModule;
+
+  beforeEach(() => {
+    currentManifest = manifest('m1', [
+      { id: 'items.sword', checksum: 'a1' },
+      { id: 'items.shield', checksum: 'b1' },
+      { id: 'currency.gold', checksum: 'c1' },
+    ]);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.endsWith('/basic/content/manifest/public/json')) return jsonResponse(currentManifest);
+        const [, id, checksum] = url.match(/cdn\.example\.test\/([^/]+)\/([^/]+)\.json/)!;
+        return jsonResponse({ id, version: checksum });
+      })
+    );
+    content = new ContentModule(new BeamableCore(config));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should emit added, changed and removed content', async () => {
+    const watcher = content.watch({ intervalMs: 0 });
+    expect(await watcher.check()).toBeNull(); // Baseline
+
+    const added = vi.fn();
+    const changed = vi.fn();
+    const removed = vi.fn();
+    const change = vi.fn();
+    watcher.on('added', added);
+    watcher.on('changed', changed);
+    watcher.on('removed', removed);
+    watcher.on('change', change);
+
+    currentManifest = manifest('m2', [
+      { id: 'items.sword', checksum: 'a2' },
+      { id: 'items.axe', checksum: 'd1' },
+      { id: 'currency.gold', checksum: 'c1' },
+    ]);
+    await watcher.check();
+
+    expect(added).toHaveBeenCalledWith(expect.objectContaining({ contentId: 'items.axe', content: { id: 'items.axe', version: 'd1' } }));
+    expect(changed).toHaveBeenCalledWith(expect.objectContaining({ contentId: 'items.sword', content: { id: 'items.sword', version: 'a2' } }));
+    expect(removed).toHaveBeenCalledWith(expect.objectContaining({ contentId: 'items.shield' }));
+    expect(change).toHaveBeenCalledTimes(1);
+
+    // The module serves the new version right away
+    expect(await content.getContent('items.sword')).toEqual({ id: 'items.sword', version: 'a2' });
+    watcher.stop();
+  });
+
+  it('should use the cached manifest as the baseline and poll on an interval', async () => {
+    await content.getContent('items.sword');
+    vi.useFakeTimers();
+    const watcher = content.watch({ intervalMs: 1000, types: ['currency'] });
+    const change = vi.fn();
+    watcher.on('change', change);
+
+    currentManifest = manifest('m2', [
+      { id: 'items.sword', checksum: 'a2' },
+      { id: 'currency.gold', checksum: 'c2' },
+    ]);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(change).toHaveBeenCalledTimes(1);
+    const changes = change.mock.calls[0][0];
+    expect(changes.changed.map((e: any) => e.contentId)).toEqual(['currency.gold']);
+    expect(changes.removed).toEqual([]); // items.shield is not a watched type
+    watcher.stop();
+    expect(watcher.running).toBe(false);
+  });
+
+  it('should check when the notifier fires', async () => {
+    await content.getContent('items.sword');
+    let notify = () => {};
+    const unsubscribe = vi.fn();
+    const notifier: ContentChangeNotifier = {
+      subscribe(onChange) {
+        notify = onChange;
+        return unsubscribe;
+      },
+    };
+    const watcher = content.watch({ intervalMs: 0, notifier });
+    const added = vi.fn();
+    watcher.on('added', added);
+
+    currentManifest = manifest('m2', [...currentManifest.entries.map((e: any) => ({ id: e.contentId, checksum: e.checksum })), { id: 'items.axe', checksum: 'd1' }]);
+    notify();
+    await vi.waitFor(() => expect(added).toHaveBeenCalledTimes(1));
+
+    watcher.stop();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should report failed checks through the error event', async () => {
+    const watcher = content.watch({ intervalMs: 0 });
+    await watcher.check();
+    const error = vi.fn();
+    watcher.on('error', error);
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503));
+
+    await expect(watcher.check()).rejects.toThrow();
+    expect(error).toHaveBeenCalledTimes(1);
+    watcher.stop();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { ContentModule } from '../src/modules/Content';
+import {
+  BeamableAuthError,
+  BeamableError,
+  BeamableHttpError,
+  BeamableNetworkError,
+  isBeamableAuthError,
+  isBeamableHttpError,
+  isBeamableNetworkError,
+} from '../src/core/BeamableError';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('Beamable errors', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should throw a BeamableHttpError carrying the Beamable error body', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ status: 404, service: 'inventory', error: 'NoSuchContent', message: 'No such content' }, 404));
+    const core = new BeamableCore(config);
+
+    const error = await core.request('GET', '/object/inventory/1/').catch((e) => e);
+
+    expect(isBeamableHttpError(error)).toBe(true);
+    expect(isBeamableAuthError(error)).toBe(false);
+    expect(error).toMatchObject({
+      status: 404,
+      service: 'inventory',
+      errorCode: 'NoSuchContent',
+      method: 'GET',
+      path: '/object/inventory/1/',
+    });
+    expect(error.message).toContain('No such content');
+  });
+
+  it('should throw a BeamableAuthError for 403 responses', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ status: 403, service: 'stats', error: 'Forbidden' }, 403));
+    const core = new BeamableCore(config);
+
+    const error = await core.request('GET', '/object/stats/game.private.player.1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(BeamableAuthError);
+    expect(error).toBeInstanceOf(BeamableHttpError);
+    expect(error).toBeInstanceOf(BeamableError);
+  });
+
+  it('should handle error responses without a JSON body', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('upstream timeout', { status: 502, statusText: 'Bad Gateway' }));
+    const core = new BeamableCore(config);
+
+    const error = await core.request('GET', '/basic/content/manifest/public/json').catch((e) => e);
+
+    expect(error).toBeInstanceOf(BeamableHttpError);
+    expect(error.status).toBe(502);
+    expect(error.errorCode).toBeUndefined();
+  });
+
+  it('should wrap fetch failures in a BeamableNetworkError', async () => {
+    const cause = new TypeError('fetch failed');
+    fetchMock.mockRejectedValueOnce(cause);
+    const core = new BeamableCore(config);
+
+    const error = await core.request('POST', '/basic/auth/token', { grant_type: 'guest' }).catch((e) => e);
+
+    expect(isBeamableNetworkError(error)).toBe(true);
+    expect(error.cause).toBe(cause);
+    expect(error.method).toBe('POST');
+  });
+
+  it('should throw typed errors from ContentModule CDN downloads', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ entries: [{ contentId: 'items.sword', uri: 'https://cdn.example.test/items.sword.json' }] }))
+      .mockResolvedValueOnce(new Response('', { status: 404, statusText: 'Not Found' }));
+    const content = new ContentModule(new BeamableCore(config));
+
+    const error = await content.getContent('items.sword').catch((e) => e);
+
+    expect(error).toBeInstanceOf(BeamableHttpError);
+    expect(error.path).toBe('https://cdn.example.test/items.sword.json');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { ContentModule } from '../src/modules/Content';
+import { StatsModule } from '../src/modules/Stats';
+import { BeamableAbortError, BeamableTimeoutError } from '../src/core/BeamableError';
+import { jsonResponse } from './helpers';
+
+const baseConfig = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test' };
+
+/** A fetch that never answers, but rejects like the real one when its signal aborts. */
+function hangingFetch() {
+  return vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+  }));
+}
+
+describe('Fetch implementation, timeouts and cancellation', () => {
+  it('should use the fetch implementation from the config for API and CDN requests', async () => {
+    const customFetch = vi.fn(async (url: string) => {
+      if (url.endsWith('/basic/content/manifest/public/json')) {
+        return jsonResponse({ entries: [{ contentId: 'items.sword', uri: 'https://cdn.example.test/sword.json' }] });
+      }
+      return jsonResponse({ id: 'items.sword' });
+    });
+    const content = new ContentModule(new BeamableCore({ ...baseConfig, fetch: customFetch as typeof fetch }));
+
+    expect(await content.getContent('items.sword')).toEqual({ id: 'items.sword' });
+    expect(customFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.test/basic/content/manifest/public/json',
+      'https://cdn.example.test/sword.json',
+    ]);
+  });
+
+  it('should fail with a BeamableTimeoutError when no response arrives in time', async () => {
+    const core = new BeamableCore({ ...baseConfig, retry: false, timeoutMs: 20, fetch: hangingFetch() as typeof fetch });
+
+    await expect(core.request('GET', '/basic/accounts/me')).rejects.toBeInstanceOf(BeamableTimeoutError);
+  });
+
+  it('should let a request override the default timeout', async () => {
+    const customFetch = hangingFetch();
+    const core = new BeamableCore({ ...baseConfig, retry: false, timeoutMs: 60_000, fetch: customFetch as typeof fetch });
+
+    await expect(core.request('GET', '/basic/accounts/me', undefined, { timeoutMs: 10 })).rejects.toBeInstanceOf(BeamableTimeoutError);
+  });
+
+  it('should cancel in-flight module calls through an AbortSignal', async () => {
+    const stats = new StatsModule(new BeamableCore({ ...baseConfig, fetch: hangingFetch() as typeof fetch }));
+    const controller = new AbortController();
+
+    const pending = stats.getStats('client.public.player.1', undefined, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(BeamableAbortError);
+  });
+
+  it('should not send anything when the signal is already aborted', async () => {
+    const customFetch = vi.fn();
+    const core = new BeamableCore({ ...baseConfig, fetch: customFetch as typeof fetch });
+
+    await expect(core.request('GET', '/basic/accounts/me', undefined, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(BeamableAbortError);
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+
+  it('should stop retrying when aborted during the backoff delay', async () => {
+    const customFetch = vi.fn(async () => jsonResponse({}, 503));
+    const core = new BeamableCore({ ...baseConfig, retry: { baseDelayMs: 10_000, jitter: false }, fetch: customFetch as typeof fetch });
+    const controller = new AbortController();
+
+    const pending = core.request('GET', '/basic/accounts/me', undefined, { signal: controller.signal });
+    await vi.waitFor(() => expect(customFetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(BeamableAbortError);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+  });
+});
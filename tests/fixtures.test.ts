@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamContext } from '../src/core/BeamContext';
+import { BeamableFixtureError } from '../src/core/BeamableError';
+import { FixtureRecorder, MemoryFixtureStore, type FixtureFile } from '../src/core/Fixtures';
+import { MockBeamableServer } from '../src/testing';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('fixtures', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('should record interactions with tokens, passwords, signatures and the secret redacted', async () => {
+    const store = new MemoryFixtureStore();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.endsWith('/basic/auth/token')) {
+          return jsonResponse({ access_token: 'live-access', refresh_token: 'live-refresh', expires_in: 3600000, token_type: 'token' });
+        }
+        if (url.endsWith('/basic/accounts/me')) return jsonResponse({ id: 1 });
+        return jsonResponse({ id: 'client.public.player.1', stats: { note: 'my-secret' } });
+      })
+    );
+
+    const recorder = new FixtureRecorder({ mode: 'record', store });
+    const client = new BeamableCore({ ...config, fixtures: recorder });
+    const login = await client.request('POST', '/basic/auth/token', { grant_type: 'password', username: 'a@b.c', password: 'hunter2' });
+    await client.setTokens(login.access_token, login.refresh_token);
+    await client.request('GET', '/basic/accounts/me', undefined, { auth: true });
+    const server = new BeamableCore({ ...config, mode: 'server', secret: 'my-secret', fixtures: recorder });
+    await server.request('GET', '/object/stats/client.public.player.1', undefined, { auth: true, gamertag: '1' });
+
+    const { interactions } = (await store.load())!;
+    expect(interactions).toHaveLength(3);
+    expect(interactions[0].request.body).toEqual({ grant_type: 'password', username: 'a@b.c', password: '[REDACTED]' });
+    expect(interactions[0].response.body).toMatchObject({ access_token: '[REDACTED]', refresh_token: '[REDACTED]' });
+    expect(interactions[1].request.headers.Authorization).toBe('[REDACTED]');
+    expect(interactions[2].request.headers).toMatchObject({ 'X-BEAM-SIGNATURE': '[REDACTED]', 'X-BEAM-GAMERTAG': '1' });
+    expect(interactions[2].response.body).toEqual({ id: 'client.public.player.1', stats: { note: '[REDACTED]' } });
+    expect(JSON.stringify(interactions)).not.toMatch(/hunter2|live-access|live-refresh|my-secret/);
+  });
+
+  it('should redact the admin token of a server-mode core', async () => {
+    const store = new MemoryFixtureStore();
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ id: 1, note: 'issued admin-token-123' })));
+    const core = new BeamableCore({ ...config, mode: 'server', adminToken: 'admin-token-123', fixtures: { mode: 'record', store } });
+
+    await core.request('GET', '/basic/accounts/me?as=admin-token-123', undefined, { gamertag: '1' });
+
+    const { interactions } = (await store.load())!;
+    expect(interactions[0].request.headers.Authorization).toBe('[REDACTED]');
+    expect(interactions[0].request.url).toBe('https://api.example.test/basic/accounts/me?as=[REDACTED]');
+    expect(interactions[0].response.body).toEqual({ id: 1, note: 'issued [REDACTED]' });
+  });
+
+  it('should redact secret query parameters in the saved file and still replay them', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-fixtures-'));
+    const file = path.join(dir, 'third-party.json');
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ available: true })));
+    const check = (mode: 'record' | 'replay', token: string) => {
+      const core = new BeamableCore({ ...config, fixtures: { mode, file, redactKeys: ['session'] } });
+      return core.request('GET', `/basic/accounts/available/third-party?third_party=google&external_token=${token}&session=s-1`);
+    };
+
+    try {
+      await check('record', 'SECRET-EXTERNAL-TOKEN');
+      const saved = fs.readFileSync(file, 'utf8');
+      expect(saved).not.toContain('SECRET-EXTERNAL-TOKEN');
+      expect(saved).not.toContain('s-1');
+      expect(JSON.parse(saved).interactions[0].request.url).toBe(
+        'https://api.example.test/basic/accounts/available/third-party?third_party=google&external_token=[REDACTED]&session=[REDACTED]'
+      );
+      await expect(check('replay', 'ANOTHER-TOKEN')).resolves.toEqual({ available: true });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should replay recorded responses in order without a network', async () => {
+    const fixtures: FixtureFile = {
+      version: 1,
+      interactions: [1, 2].map((level) => ({
+        request: { method: 'GET', url: 'https://api.example.test/object/stats/s', headers: {} },
+        response: { status: 200, headers: { 'content-type': 'application/json' }, body: { stats: { level } } },
+      })),
+    };
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+    const core = new BeamableCore({ ...config, fixtures: { mode: 'replay', store: new MemoryFixtureStore(fixtures) } });
+
+    const levels = [];
+    for (let i = 0; i < 3; i++) levels.push((await core.request('GET', '/object/stats/s')).stats.level);
+
+    expect(levels).toEqual([1, 2, 2]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fail loudly on unmatched requests in replay mode, without retrying', async () => {
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+    const store = new MemoryFixtureStore({ version: 1, interactions: [] });
+    const core = new BeamableCore({ ...config, retry: undefined, fixtures: { store } });
+
+    const error = await core.request('POST', '/object/stats/s', { set: { a: 1 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BeamableFixtureError);
+    expect(error.message).toBe(
+      'No recorded fixture matches POST https://api.example.test/object/stats/s. Record it again with BEAMABLE_FIXTURES=record.'
+    );
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should take the mode from BEAMABLE_FIXTURES over the config', async () => {
+    vi.stubEnv('BEAMABLE_FIXTURES', 'passthrough');
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ ok: true })));
+    const store = new MemoryFixtureStore();
+
+    const core = new BeamableCore({ ...config, fixtures: { mode: 'replay', store } });
+
+    await expect(core.request('GET', '/basic/accounts/me')).resolves.toEqual({ ok: true });
+    expect(await store.load()).toBeNull();
+
+    vi.stubEnv('BEAMABLE_FIXTURES', 'rewind');
+    expect(() => new FixtureRecorder({ store })).toThrow("Invalid fixture mode 'rewind'");
+  });
+
+  it('should replay a recorded session, including content downloads, from a file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-fixtures-'));
+    const file = path.join(dir, 'session.json');
+    const server = await MockBeamableServer.start({
+      seed: { content: [{ id: 'items.Sword', content: { id: 'items.Sword', properties: { damage: { data: 5 } } } }] },
+    });
+    const serverConfig = server.config({ retry: false });
+    const session = async (mode: 'record' | 'replay') => {
+      const context = await BeamContext.create({ ...serverConfig, fixtures: { mode, file } }, 'fixtures');
+      const stats = `client.public.player.${context.playerId}`;
+      await context.Stats.incrementStats(stats, { wins: 1 });
+      return {
+        stats: await context.Stats.getStats(stats),
+        sword: await context.Content.getContent('items.Sword'),
+        inventory: await context.Inventory.addCurrency(String(context.playerId), 'currency.gems', 5),
+      };
+    };
+
+    try {
+      const recorded = await session('record');
+      await server.close();
+      expect(await session('replay')).toEqual(recorded);
+      expect(JSON.parse(fs.readFileSync(file, 'utf8')).interactions.length).toBeGreaterThan(5);
+    } finally {
+      await server.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
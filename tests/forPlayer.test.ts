@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { BeamContext } from '../src/core/BeamContext';
+import { BeamableError } from '../src/core/BeamableError';
+import { MockBeamableServer } from '../src/testing';
+
+describe('BeamContext.forPlayer', () => {
+  let server: MockBeamableServer;
+  let context: BeamContext;
+
+  beforeAll(async () => {
+    server = await MockBeamableServer.start({
+      secret: 'mock-secret',
+      seed: {
+        accounts: [{ id: 100, email: 'a@example.test' }, { id: 200 }],
+        inventories: { 100: { currencies: { 'currency.gems': 5 } }, 200: { currencies: { 'currency.gems': 9 } } },
+      },
+    });
+    context = await BeamContext.create(server.serverConfig({ retry: false }), 'backend');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should impersonate the player on every module call', async () => {
+    const player = context.forPlayer(100);
+
+    expect(player.gamertag).toBe('100');
+    expect(player.playerId).toBe(100);
+    await expect(player.Auth.getCurrentAccount()).resolves.toMatchObject({ id: 100, email: 'a@example.test' });
+    await player.Stats.setStats('game.private.player.100', { rank: 'gold' });
+    await expect(player.Stats.getStats('game.private.player.100')).resolves.toMatchObject({ stats: { rank: 'gold' } });
+    await player.Inventory.addCurrency('100', 'currency.gems', 1);
+
+    expect(server.requests.map((r) => r.playerId)).toEqual([100, 100, 100, 100]);
+    expect(server.getInventory(100).currencies[0].amount).toBe(6);
+  });
+
+  it('should refuse calls naming another player without sending them', async () => {
+    const player = context.forPlayer('100');
+
+    await expect(player.Stats.getStats('game.private.player.200', '200')).rejects.toThrow(
+      'GET /object/stats/game.private.player.200 would impersonate player 200, but this core acts as player 100'
+    );
+    await expect(player.Inventory.addCurrency('200', 'currency.gems', 1)).rejects.toBeInstanceOf(BeamableError);
+    await expect(player.Leaderboards.setScore('leaderboards.highscores', 200, 10)).rejects.toThrow(
+      'PUT /object/leaderboards/leaderboards.highscores/entry would impersonate player 200, but this core acts as player 100'
+    );
+    await expect(player.Leaderboards.incrementScore('leaderboards.highscores', '200', 1)).rejects.toBeInstanceOf(BeamableError);
+    await expect(player.Leaderboards.removeEntry('leaderboards.highscores', 200)).rejects.toBeInstanceOf(BeamableError);
+    await expect(player.Stats.setStats('client.public.player.200', { rank: 'gold' })).rejects.toThrow(
+      'POST /object/stats/client.public.player.200 would impersonate player 200, but this core acts as player 100'
+    );
+    await expect(player.Stats.incrementStats('game.private.player.200', { wins: 1 })).rejects.toBeInstanceOf(BeamableError);
+    await expect(player.Stats.deleteStats('client.public.player.200', ['rank'])).rejects.toBeInstanceOf(BeamableError);
+    await expect(player.Stats.setPlayerStats('client.public.player.200', { rank: 'gold' })).rejects.toBeInstanceOf(BeamableError);
+    expect(() => player.forPlayer(200)).toThrow('This core already acts as player 100');
+
+    expect(server.requests).toEqual([]);
+    expect(server.getInventory(200).currencies[0].amount).toBe(9);
+    expect(server.getStats('client.public.player.200')).toEqual({});
+  });
+
+  it('should share the content cache and leave the parent context untouched', async () => {
+    const player = context.forPlayer(200);
+
+    expect(player.Content).toBe(context.Content);
+    expect(context.gamertag).toBeNull();
+    await expect(context.Inventory.getInventory('100')).resolves.toMatchObject({ currencies: [{ amount: 5 }] });
+    await expect(player.Inventory.view.refresh()).resolves.toBeDefined();
+    expect(server.requests.map((r) => r.playerId)).toEqual([100, 200]);
+  });
+
+  it('should only be available in server mode', async () => {
+    const client = await BeamContext.create(server.config({ retry: false }));
+
+    expect(() => client.forPlayer(100)).toThrow('forPlayer needs server mode');
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { parseGenerateClientArgs } from '../src/cli/args';
+import { generateClient } from '../src/cli/generateClient';
+import { microserviceNameFromDocument, renderMicroserviceClient, type OpenApiDocument } from '../src/cli/openApiClient';
+
+const shopDocument: OpenApiDocument = {
+  openapi: '3.0.1',
+  info: { title: 'Shop', version: '1.0', description: 'Buys and sells items.' },
+  servers: [{ url: 'https://api.example.test/basic/test-cid.test-pid.micro_Shop/' }],
+  paths: {
+    '/basic/test-cid.test-pid.micro_Shop/Purchase': {
+      post: {
+        operationId: 'Purchase',
+        summary: 'Buy an item for gems.',
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { listingId: { type: 'string' }, quantity: { type: 'integer', description: 'How many to buy' } },
+                required: ['listingId'],
+              },
+            },
+          },
+        },
+        responses: { '200': { description: 'The receipt', content: { 'application/json': { schema: { $ref: '#/components/schemas/Receipt' } } } } },
+      },
+    },
+    '/basic/test-cid.test-pid.micro_Shop/listings/{listing-id}': {
+      get: {
+        operationId: 'GetListing',
+        parameters: [
+          { name: 'listing-id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'currency', in: 'query', schema: { type: 'string', enum: ['gems', 'coins'] } },
+          { name: 'page size', in: 'query', schema: { type: 'integer' } },
+        ],
+        security: [],
+        deprecated: true,
+        responses: { '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Listing' } } } } },
+      },
+    },
+    '/basic/test-cid.test-pid.micro_Shop/Restock': {
+      post: { responses: { '204': { description: 'Restocked' } } },
+    },
+  },
+  components: {
+    schemas: {
+      Listing: {
+        type: 'object',
+        description: 'An item for sale.',
+        properties: {
+          id: { type: 'string' },
+          price: { type: 'number', nullable: true },
+          tags: { type: 'array', items: { type: 'string' } },
+          related: { type: 'array', items: { $ref: '#/components/schemas/Listing' } },
+        },
+        required: ['id', 'price'],
+      },
+      Receipt: {
+        type: 'object',
+        properties: { listing: { $ref: '#/components/schemas/Listing' }, balance: { type: 'object', additionalProperties: { type: 'integer' } } },
+      },
+      Unused: { type: 'string' },
+    },
+  },
+  security: [{ scope: [] }, { user: [] }],
+};
+
+/** Transpile the generated module and return its exports. */
+function load(source: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } });
+  const module = { exports: {} as Record<string, any> };
+  new Function('module', 'exports', 'require', outputText)(module, module.exports, () => ({}));
+  return module.exports;
+}
+
+describe('parseGenerateClientArgs', () => {
+  it('should parse the document and every flag', () => {
+    expect(parseGenerateClientArgs(['shop.json', '--out', 'src/ShopClient.ts', '--service', 'Shop', '--class-name', 'Store'])).toEqual({
+      input: 'shop.json',
+      outFile: 'src/ShopClient.ts',
+      serviceName: 'Shop',
+      className: 'Store',
+    });
+  });
+
+  it('should require exactly one document and reject unknown flags', () => {
+    expect(() => parseGenerateClientArgs([])).toThrow('Pass exactly one OpenAPI JSON file');
+    expect(() => parseGenerateClientArgs(['a.json', 'b.json'])).toThrow('Pass exactly one OpenAPI JSON file');
+    expect(() => parseGenerateClientArgs(['a.json', '--outdir', 'x'])).toThrow();
+  });
+});
+
+describe('renderMicroserviceClient', () => {
+  const source = renderMicroserviceClient(shopDocument, { source: 'shop.json' });
+
+  it('should declare the schemas it uses and one documented method per operation', () => {
+    expect(microserviceNameFromDocument(shopDocument)).toBe('Shop');
+    expect(microserviceNameFromDocument({ openapi: '3.0.0', info: { title: 'loot box' } })).toBe('LootBox');
+    expect(source).toContain('// Generated by `beamable generateClient` from shop.json. Do not edit.');
+    expect(source).toContain("import type { BeamableCore } from '@omen.foundation/beamable-sdk';");
+    expect(source).toContain('export class ShopClient {');
+    expect(source).toContain('export interface PurchaseRequest {\n  listingId: string;\n  /** How many to buy */\n  quantity?: number;\n}');
+    expect(source).toContain('/** An item for sale. */\nexport interface Listing {');
+    expect(source).toContain('  price: number | null;\n  tags?: string[];\n  related?: Listing[];');
+    expect(source).toContain('  balance?: Record<string, number>;');
+    expect(source).not.toContain('Unused');
+    expect(source).toContain('async purchase(request: PurchaseRequest, gamertag?: string, signal?: AbortSignal): Promise<Receipt>');
+    expect(source).toContain(
+      "async getListing(listingId: string, query?: { currency?: \"gems\" | \"coins\"; 'page size'?: number }, gamertag?: string, signal?: AbortSignal): Promise<Listing>"
+    );
+    expect(source).toContain('async postRestock(gamertag?: string, signal?: AbortSignal): Promise<void>');
+    expect(source).toMatch(/\* Buy an item for gems\.\n {3}\*\n {3}\* POST \/Purchase\n {3}\* @param request The request body/);
+    expect(source).toContain('   * @returns The receipt');
+    expect(source).toContain('   * @deprecated');
+  });
+
+  it('should generate code that type-checks against the SDK', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-client-'));
+    try {
+      const sdkModule = path.resolve(__dirname, '../src/index').split(path.sep).join('/');
+      const file = path.join(dir, 'ShopClient.ts');
+      fs.writeFileSync(file, renderMicroserviceClient(shopDocument, { sdkModule }));
+      const program = ts.createProgram([file], {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2019,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        lib: ['lib.es2019.d.ts', 'lib.dom.d.ts'],
+        esModuleInterop: true,
+        skipLibCheck: true,
+        typeRoots: [path.resolve(__dirname, '../node_modules/@types')],
+        types: ['node'],
+      });
+      const diagnostics = ts.getPreEmitDiagnostics(program).map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+      expect(diagnostics).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it('should call requestMicroservice with the route, body, query and auth of each operation', async () => {
+    const { ShopClient } = load(source);
+    const core = { requestMicroservice: vi.fn(async () => ({ ok: true })) };
+    const client = new ShopClient(core);
+    const signal = new AbortController().signal;
+
+    expect(ShopClient.serviceName).toBe('Shop');
+    await expect(client.purchase({ listingId: 'sword' }, '42', signal)).resolves.toEqual({ ok: true });
+    await client.getListing('a/b', { currency: 'gems', 'page size': 5 });
+    await client.getListing('c');
+    await client.postRestock();
+
+    expect(core.requestMicroservice.mock.calls).toEqual([
+      ['POST', 'Shop', '/Purchase', { listingId: 'sword' }, { auth: true, gamertag: '42', signal }],
+      ['GET', 'Shop', '/listings/a%2Fb?currency=gems&page%20size=5', undefined, { auth: false, gamertag: undefined, signal: undefined }],
+      ['GET', 'Shop', '/listings/c', undefined, { auth: false, gamertag: undefined, signal: undefined }],
+      ['POST', 'Shop', '/Restock', undefined, { auth: true, gamertag: undefined, signal: undefined }],
+    ]);
+  });
+
+  it('should reject documents it cannot render', () => {
+    expect(() => renderMicroserviceClient({ swagger: '2.0' } as OpenApiDocument)).toThrow('Only OpenAPI 3 documents are supported');
+    expect(() => renderMicroserviceClient({ openapi: '3.0.0' })).toThrow('Pass --service <name>');
+    expect(() =>
+      renderMicroserviceClient({
+        openapi: '3.0.0',
+        info: { title: 'Shop' },
+        paths: { '/x': { get: { responses: { '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Missing' } } } } } } } },
+      })
+    ).toThrow('Unresolved schema reference #/components/schemas/Missing');
+  });
+});
+
+describe('generateClient', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-client-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the client named after the service', async () => {
+    const input = path.join(dir, 'shop.json');
+    fs.writeFileSync(input, JSON.stringify(shopDocument));
+    const outFile = path.join(dir, 'clients', 'Store.ts');
+
+    const result = await generateClient({ input, outFile, className: 'Store' });
+
+    expect(result).toEqual({ outFile, serviceName: 'Shop', className: 'Store' });
+    expect(fs.readFileSync(outFile, 'utf8')).toBe(renderMicroserviceClient(shopDocument, { className: 'Store', source: 'shop.json' }));
+  });
+
+  it('should report missing and malformed documents', async () => {
+    await expect(generateClient({ input: path.join(dir, 'missing.json') })).rejects.toThrow('OpenAPI document not found');
+    fs.writeFileSync(path.join(dir, 'bad.json'), '{');
+    await expect(generateClient({ input: path.join(dir, 'bad.json') })).rejects.toThrow('is not valid JSON');
+  });
+});
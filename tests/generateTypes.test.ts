@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseGenerateTypesArgs } from '../src/cli/args';
+import { generateTypes, type GenerateTypesOptions } from '../src/cli/generateTypes';
+import { jsonResponse } from './helpers';
+
+describe('parseGenerateTypesArgs', () => {
+  it('should parse every flag', () => {
+    const options = parseGenerateTypesArgs([
+      '--out', 'types',
+      '--cid', 'c', '--pid', 'p', '--api-url', 'https://api.example.test',
+      '--env-file', '.env.staging',
+      '--include', 'items,Minions', '--include', 'stores',
+      '--exclude', 'vip',
+      '--schemas', '--dry-run', '--no-clean', '--check',
+    ]);
+    expect(options).toEqual({
+      outDir: 'types',
+      cid: 'c',
+      pid: 'p',
+      apiUrl: 'https://api.example.test',
+      envFile: '.env.staging',
+      include: ['items', 'Minions', 'stores'],
+      exclude: ['vip'],
+      schemas: true,
+      dryRun: true,
+      clean: false,
+      check: true,
+    });
+  });
+
+  it('should default to cleaning and writing', () => {
+    expect(parseGenerateTypesArgs([])).toMatchObject({ clean: true, dryRun: false, check: false, include: undefined });
+  });
+
+  it('should reject unknown flags and missing values', () => {
+    expect(() => parseGenerateTypesArgs(['--outdir', 'x'])).toThrow(/Unknown option '--outdir'/);
+    expect(() => parseGenerateTypesArgs(['--out'])).toThrow(/argument missing/);
+  });
+});
+
+describe('generateTypes', () => {
+  let outDir: string;
+  let content: Record<string, any>;
+
+  beforeEach(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-types-'));
+    content = {
+      'items.Sword': { id: 'items.Sword', properties: { damage: { data: 5 } } },
+      'Minions.Goblin': { id: 'Minions.Goblin', properties: { hp: { data: 10 } } },
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.endsWith('/basic/content/manifest/public/json')) {
+          return jsonResponse({ entries: Object.keys(content).map((id) => ({ contentId: id, uri: `https://cdn.example.test/${id}.json` })) });
+        }
+        const id = url.match(/cdn\.example\.test\/(.+)\.json$/)![1];
+        return jsonResponse(content[id]);
+      })
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  const run = (options: GenerateTypesOptions = {}) =>
+    generateTypes({ outDir, cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', ...options });
+
+  it('should write one file per type plus the registry, and delete files it did not generate', async () => {
+    fs.writeFileSync(path.join(outDir, 'stale.d.ts'), '');
+
+    const result = await run();
+
+    expect(fs.readdirSync(outDir).sort()).toEqual(['Minions.d.ts', 'index.d.ts', 'items.d.ts']);
+    expect(result.deleted).toEqual(['stale.d.ts']);
+    expect(fs.readFileSync(path.join(outDir, 'items.d.ts'), 'utf8')).toContain('export interface Items {');
+  });
+
+  it('should keep other files with clean: false', async () => {
+    fs.writeFileSync(path.join(outDir, 'custom.d.ts'), '');
+
+    await run({ clean: false });
+
+    expect(fs.existsSync(path.join(outDir, 'custom.d.ts'))).toBe(true);
+  });
+
+  it('should only generate included types and leave the files of filtered types alone', async () => {
+    fs.writeFileSync(path.join(outDir, 'Minions.d.ts'), '// hand edited');
+
+    const result = await run({ include: ['items'] });
+
+    expect(result.types).toEqual(['items']);
+    expect(fs.readFileSync(path.join(outDir, 'Minions.d.ts'), 'utf8')).toBe('// hand edited');
+    expect(fs.readFileSync(path.join(outDir, 'index.d.ts'), 'utf8')).toContain("'Minions.Goblin': Minions;");
+
+    expect((await run({ exclude: ['items'] })).types).toEqual(['Minions']);
+  });
+
+  it('should keep the registry of a full run when filtering', async () => {
+    await run();
+    const index = fs.readFileSync(path.join(outDir, 'index.d.ts'), 'utf8');
+
+    expect((await run({ check: true, include: ['items'] })).upToDate).toBe(true);
+    await run({ exclude: ['Minions'] });
+    expect(fs.readFileSync(path.join(outDir, 'index.d.ts'), 'utf8')).toBe(index);
+
+    fs.unlinkSync(path.join(outDir, 'Minions.d.ts'));
+    await run({ include: ['items'] });
+    expect(fs.readFileSync(path.join(outDir, 'index.d.ts'), 'utf8')).not.toContain('Minions');
+  });
+
+  it('should write nothing in dry-run mode', async () => {
+    const result = await run({ dryRun: true });
+
+    expect(result.written.sort()).toEqual(['Minions.d.ts', 'index.d.ts', 'items.d.ts']);
+    expect(fs.readdirSync(outDir)).toEqual([]);
+  });
+
+  it('should report drift in check mode', async () => {
+    await run();
+    expect((await run({ check: true })).upToDate).toBe(true);
+
+    content['items.Sword'].properties.rarity = { data: 'rare' };
+    content['items.Shield'] = { id: 'items.Shield', properties: {} };
+    const result = await run({ check: true });
+
+    expect(result.upToDate).toBe(false);
+    expect(result.written.sort()).toEqual(['index.d.ts', 'items.d.ts']);
+    expect(fs.readFileSync(path.join(outDir, 'items.d.ts'), 'utf8')).not.toContain('rarity');
+  });
+});
@@ -0,0 +1,26 @@
+import type { Mock } from 'vitest';
+
+/**
+ * A JSON fetch Response, for tests that stub fetch.
+ */
+export function jsonResponse(body: any, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+/**
+ * A content manifest whose entries are served from https://cdn.example.test/<id>/<checksum>.json.
+ */
+export function manifest(checksum: string, entries: Array<{ id: string; checksum: string }>) {
+  return {
+    checksum,
+    entries: entries.map((e) => ({ contentId: e.id, checksum: e.checksum, uri: `https://cdn.example.test/${e.id}/${e.checksum}.json` })),
+  };
+}
+
+/**
+ * The last request a stubbed fetch received, with its JSON body parsed.
+ */
+export function lastCall(fetchMock: Mock) {
+  const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+  return { url, method: init.method, headers: init.headers, body: init.body ? JSON.parse(init.body) : undefined };
+}
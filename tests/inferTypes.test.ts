@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { inferSchema, renderTypeScript } from '../src/cli/inferTypes';
+
+describe('inferTypes', () => {
+  it('should mark fields missing from some samples as optional', () => {
+    const output = renderTypeScript(inferSchema([{ id: 'a', cost: 1 }, { id: 'b' }]), 'Items');
+    expect(output).toContain('export interface Items {\n  id: string;\n  cost?: number;\n}');
+    expect(output).toContain('export type RootObject = Items;');
+  });
+
+  it('should union the primitive types seen at one position', () => {
+    const output = renderTypeScript(inferSchema([{ data: 'x' }, { data: 5 }, { data: null }]), 'Values');
+    expect(output).toContain('  data: string | number | null;');
+  });
+
+  it('should merge nested properties and array elements across samples', () => {
+    const output = renderTypeScript(
+      inferSchema([
+        { id: 'AbilityMaps.A', properties: { actions: { data: [{ abilityName: 'a', isTaunt: true }] } } },
+        { id: 'AbilityMaps.B', properties: { actions: { data: [{ abilityName: 'b' }] }, reward: { data: 10 } } },
+      ]),
+      'AbilityMaps'
+    );
+    expect(output).toContain('  properties: Properties;');
+    expect(output).toContain('export interface Properties {\n  actions: Actions;\n  reward?: Reward;\n}');
+    expect(output).toContain('export interface Actions {\n  data: Data[];\n}');
+    expect(output).toContain('export interface Data {\n  abilityName: string;\n  isTaunt?: boolean;\n}');
+    expect(output).toContain('export interface Reward {\n  data: number;\n}');
+  });
+
+  it('should type empty arrays as unknown[] and parenthesize union elements', () => {
+    const output = renderTypeScript(inferSchema([{ tags: [], values: [1, 'a'] }]), 'Lists');
+    expect(output).toContain('  tags: unknown[];');
+    expect(output).toContain('  values: (string | number)[];');
+  });
+
+  it('should quote keys that are not identifiers', () => {
+    const output = renderTypeScript(inferSchema([{ 'display-name': 'x', $link: 'items.A' }]), 'Keys');
+    expect(output).toContain("  'display-name': string;");
+    expect(output).toContain('  $link: string;');
+  });
+
+  it('should share interfaces between same-named fields of the same shape and disambiguate different ones', () => {
+    const output = renderTypeScript(
+      inferSchema([{ first: { data: { value: 1 } }, second: { data: { value: 2 } }, third: { data: { label: 'x' } } }]),
+      'Shapes'
+    );
+    expect(output.match(/export interface Data \{/g)).toHaveLength(1);
+    expect(output).toContain('export interface ThirdData {\n  label: string;\n}');
+    expect(output).toContain('export interface Third {\n  data: ThirdData;\n}');
+  });
+
+  it('should alias a root that is not a single object', () => {
+    const output = renderTypeScript(inferSchema([[{ id: 'a' }]]), 'Rows');
+    expect(output).toContain('export type Rows = RowsItem[];');
+    expect(output).toContain('export interface RowsItem {\n  id: string;\n}');
+    expect(output).toContain('export type RootObject = Rows;');
+  });
+});
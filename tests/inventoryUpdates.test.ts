@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamableError } from '../src/core/BeamableError';
+import { InventoryModule } from '../src/modules/Inventory';
+import { jsonResponse, lastCall } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('InventoryModule updates', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let inventory: InventoryModule;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => jsonResponse({ result: 'ok', data: {} }));
+    vi.stubGlobal('fetch', fetchMock);
+    inventory = new InventoryModule(new BeamableCore(config));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send a multi-operation update in one transaction', async () => {
+    await inventory.beginUpdate('42')
+      .addCurrency('currency.gems', -50)
+      .addCurrency('currency.gems', 10)
+      .addItem('items.sword', { level: 1, rare: true })
+      .updateItem('items.shield', '1001', { durability: 80 })
+      .removeItem('items.potion', '1002')
+      .commit();
+
+    const call = lastCall(fetchMock);
+    expect(call.url).toBe('https://api.example.test/object/inventory/42/');
+    expect(call.method).toBe('PUT');
+    expect(call.headers['X-BEAM-GAMERTAG']).toBe('42');
+    expect(call.body).toMatchObject({
+      currencies: { 'currency.gems': -40 },
+      newItems: [{ contentId: 'items.sword', properties: [{ name: 'level', value: '1' }, { name: 'rare', value: 'true' }] }],
+      updateItems: [{ contentId: 'items.shield', id: '1001', properties: [{ name: 'durability', value: '80' }] }],
+      deleteItems: [{ contentId: 'items.potion', id: '1002' }],
+    });
+    expect(typeof call.body.transaction).toBe('string');
+  });
+
+  it('should keep a caller-provided transaction id', async () => {
+    await inventory.updateInventory('42', { transaction: 'tx-1', currencies: { 'currency.gold': 5 } });
+    expect(lastCall(fetchMock).body.transaction).toBe('tx-1');
+  });
+
+  it('should set a currency by applying the delta from the current amount', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ currencies: [{ id: 'currency.gold', amount: 120, properties: [] }] }))
+      .mockResolvedValueOnce(jsonResponse({ result: 'ok' }));
+
+    await inventory.setCurrency('42', 'currency.gold', 100);
+
+    expect(fetchMock.mock.calls[0][1].method).toBe('POST');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ scopes: ['currency.gold'] });
+    expect(lastCall(fetchMock).body.currencies).toEqual({ 'currency.gold': -20 });
+  });
+
+  it('should transfer currencies to another player', async () => {
+    await inventory.transfer('42', '77', { 'currency.gold': 10 });
+
+    const call = lastCall(fetchMock);
+    expect(call.url).toBe('https://api.example.test/object/inventory/42/transfer');
+    expect(call.body).toMatchObject({ recipientPlayer: 77, currencies: { 'currency.gold': 10 } });
+  });
+
+  it('should preview an update without applying it', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ currencies: [{ id: 'currency.gold', amount: 15, originalAmount: 10 }] }));
+
+    const preview = await inventory.beginUpdate('42').addCurrency('currency.gold', 5).preview();
+
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/object/inventory/42/preview');
+    expect(preview.currencies?.[0].amount).toBe(15);
+  });
+
+  it('should reject invalid updates locally', async () => {
+    expect(inventory.validateUpdate({})).toEqual({ valid: false, errors: ['update contains no operations'] });
+    expect(inventory.validateUpdate({ currencies: { 'currency.gold': 1.5 }, deleteItems: [{ contentId: 'items.sword', id: '' }] }).errors).toEqual([
+      'currencies.currency.gold: amount must be an integer, got 1.5',
+      'deleteItems[0]: id is required',
+    ]);
+    await expect(inventory.addCurrency('42', 'currency.gold', 0.5)).rejects.toBeInstanceOf(BeamableError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
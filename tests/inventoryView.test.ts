@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { InventoryModule } from '../src/modules/Inventory';
+import { diffInventories, type InventoryView } from '../src/modules/InventoryView';
+import type { InventoryResponse } from '../src/modules/Inventory';
+import type { BeamContext } from '../src/core/BeamContext';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+const initial: InventoryResponse = {
+  currencies: [{ id: 'currency.gold', amount: 100, properties: [] }],
+  items: [{ id: 'items.sword', items: [{ id: '1', properties: [{ name: 'level', value: '1' }] }] }],
+};
+
+describe('InventoryView', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let serverState: InventoryResponse;
+  let inventory: InventoryModule;
+  let view: InventoryView;
+
+  beforeEach(() => {
+    serverState = initial;
+    fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      if (init.method === 'GET') return jsonResponse(serverState);
+      return jsonResponse({ result: 'ok' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    inventory = new InventoryModule(new BeamableCore(config), { playerId: 42 } as BeamContext);
+    view = inventory.view;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should cache the inventory and notify subscribers on refresh', async () => {
+    const snapshots: InventoryResponse[] = [];
+    view.subscribe((snapshot) => snapshots.push(snapshot));
+
+    await view.refresh();
+
+    expect(view.getSnapshot()).toEqual(initial);
+    expect(view.getCurrency('currency.gold')).toBe(100);
+    expect(view.getItems('items.sword')).toHaveLength(1);
+    expect(snapshots).toHaveLength(1);
+  });
+
+  it('should emit typed events for differences between refreshes', async () => {
+    await view.refresh();
+    const currencyChanged = vi.fn();
+    const itemAdded = vi.fn();
+    const itemChanged = vi.fn();
+    const itemRemoved = vi.fn();
+    view.on('currencyChanged', currencyChanged);
+    view.on('itemAdded', itemAdded);
+    view.on('itemChanged', itemChanged);
+    view.on('itemRemoved', itemRemoved);
+
+    serverState = {
+      currencies: [{ id: 'currency.gold', amount: 80, properties: [] }],
+      items: [
+        { id: 'items.sword', items: [{ id: '1', properties: [{ name: 'level', value: '2' }] }] },
+        { id: 'items.shield', items: [{ id: '2', properties: [] }] },
+      ],
+    };
+    await view.refresh();
+
+    expect(currencyChanged).toHaveBeenCalledWith({ id: 'currency.gold', previous: 100, current: 80, delta: -20, optimistic: false });
+    expect(itemAdded).toHaveBeenCalledWith(expect.objectContaining({ contentId: 'items.shield' }));
+    expect(itemChanged).toHaveBeenCalledWith(expect.objectContaining({ contentId: 'items.sword' }));
+    expect(itemRemoved).not.toHaveBeenCalled();
+  });
+
+  it('should not emit when nothing changed', async () => {
+    await view.refresh();
+    const listener = vi.fn();
+    view.subscribe(listener);
+    await view.refresh();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should apply module updates optimistically and reconcile with the server', async () => {
+    await view.refresh();
+    const events: Array<[number, boolean]> = [];
+    view.on('currencyChanged', (e) => events.push([e.current, e.optimistic]));
+    serverState = { ...initial, currencies: [{ id: 'currency.gold', amount: 75, properties: [] }] };
+
+    const pending = inventory.addCurrency('42', 'currency.gold', -25);
+    expect(view.getCurrency('currency.gold')).toBe(75);
+    await pending;
+
+    expect(events).toEqual([[75, true]]);
+    expect(view.getSnapshot()).toBe(view.getSnapshot());
+  });
+
+  it('should roll back an optimistic update when the server rejects it', async () => {
+    await view.refresh();
+    fetchMock.mockImplementationOnce(async () => jsonResponse({ error: 'InsufficientFunds' }, 400));
+    const events: number[] = [];
+    view.on('currencyChanged', (e) => events.push(e.current));
+
+    await expect(inventory.addCurrency('42', 'currency.gold', -500)).rejects.toMatchObject({ status: 400 });
+
+    expect(events).toEqual([-400, 100]);
+    expect(view.getCurrency('currency.gold')).toBe(100);
+  });
+
+  it('should keep other pending updates when rolling back one that overlapped them', async () => {
+    await view.refresh();
+    let rejectFirst!: () => void;
+    let resolveSecond!: () => void;
+    fetchMock
+      .mockImplementationOnce(() => new Promise<Response>((resolve) => { rejectFirst = () => resolve(jsonResponse({ error: 'InsufficientFunds' }, 400)); }))
+      .mockImplementationOnce(() => new Promise<Response>((resolve) => { resolveSecond = () => resolve(jsonResponse({ result: 'ok' })); }));
+
+    const first = inventory.addCurrency('42', 'currency.gold', -30);
+    const second = inventory.updateInventory('42', { currencies: { 'currency.gold': 5 }, newItems: [{ contentId: 'items.shield', properties: [] }] });
+    expect(view.getCurrency('currency.gold')).toBe(75);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+    const shieldId = view.getItems('items.shield')[0].id;
+
+    rejectFirst();
+    await expect(first).rejects.toMatchObject({ status: 400 });
+    expect(view.getCurrency('currency.gold')).toBe(105);
+    expect(view.getItems('items.shield')).toEqual([{ id: shieldId, properties: [] }]);
+
+    serverState = {
+      currencies: [{ id: 'currency.gold', amount: 105, properties: [] }],
+      items: [...initial.items!, { id: 'items.shield', items: [{ id: '2', properties: [] }] }],
+    };
+    resolveSecond();
+    await second;
+    expect(view.getSnapshot()).toEqual(serverState);
+  });
+
+  it('should leave updates for other players untouched', async () => {
+    await view.refresh();
+    const listener = vi.fn();
+    view.subscribe(listener);
+
+    await inventory.addCurrency('77', 'currency.gold', 5);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should diff removed items', () => {
+    const changes = diffInventories(initial, { currencies: initial.currencies, items: [] });
+    expect(changes.itemsRemoved).toEqual([{ contentId: 'items.sword', item: initial.items![0].items![0], optimistic: false }]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { LeaderboardsModule } from '../src/modules/Leaderboards';
+import { jsonResponse, lastCall } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('LeaderboardsModule', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let leaderboards: LeaderboardsModule;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => jsonResponse({ result: 'ok' }));
+    vi.stubGlobal('fetch', fetchMock);
+    leaderboards = new LeaderboardsModule(new BeamableCore(config));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should set and increment scores', async () => {
+    await leaderboards.setScore('leaderboards.highscores', '42', 100, { level: 3 });
+    expect(lastCall(fetchMock)).toMatchObject({
+      url: 'https://api.example.test/object/leaderboards/leaderboards.highscores/entry',
+      method: 'PUT',
+      body: { id: 42, score: 100, increment: false, stats: { level: 3 } },
+    });
+
+    await leaderboards.incrementScore('leaderboards.highscores', 42, 5, undefined, '42');
+    const call = lastCall(fetchMock);
+    expect(call.body).toEqual({ id: 42, score: 5, increment: true });
+    expect(call.headers['X-BEAM-GAMERTAG']).toBe('42');
+  });
+
+  it('should not retry score increments', async () => {
+    leaderboards = new LeaderboardsModule(new BeamableCore({ ...config, retry: { baseDelayMs: 0, jitter: false } }));
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Unavailable' }, 503));
+
+    await expect(leaderboards.incrementScore('leaderboards.highscores', 42, 5)).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build ranked view queries', async () => {
+    await leaderboards.getTop('leaderboards.highscores', 25);
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/object/leaderboards/leaderboards.highscores/view?from=1&max=25');
+
+    await leaderboards.getAroundPlayer('leaderboards.highscores', 42, 2);
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/object/leaderboards/leaderboards.highscores/view?focus=42&max=5');
+
+    await leaderboards.getFriendsView('leaderboards.highscores');
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/object/leaderboards/leaderboards.highscores/friends');
+  });
+
+  it('should look up a player rank', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ lb: { rankings: [{ gt: 42, rank: 7, score: 100 }] } }));
+    const entry = await leaderboards.getPlayerRank('leaderboards.highscores', '42');
+
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/object/leaderboards/leaderboards.highscores/ranks?ids=42');
+    expect(entry).toMatchObject({ gt: 42, rank: 7, score: 100 });
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ lb: { rankings: [] } }));
+    expect(await leaderboards.getPlayerRank('leaderboards.highscores', '43')).toBeNull();
+  });
+
+  it('should resolve partitioned board assignments', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ leaderboardId: 'leaderboards.weekly#3' }));
+    const assignment = await leaderboards.getAssignment('leaderboards.weekly');
+
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/object/leaderboards/leaderboards.weekly/assignment?joinBoard=true');
+    expect(assignment.leaderboardId).toBe('leaderboards.weekly#3');
+  });
+
+  it('should send admin operations', async () => {
+    await leaderboards.createBoard('leaderboards.weekly', { partitioned: true, maxEntries: 100 });
+    expect(lastCall(fetchMock)).toMatchObject({
+      url: 'https://api.example.test/object/leaderboards/leaderboards.weekly/',
+      method: 'POST',
+      body: { partitioned: true, maxEntries: 100 },
+    });
+
+    await leaderboards.freezeBoard('leaderboards.weekly');
+    expect(lastCall(fetchMock)).toMatchObject({ url: 'https://api.example.test/object/leaderboards/leaderboards.weekly/freeze', method: 'PUT' });
+
+    await leaderboards.listBoards({ prefix: 'leaderboards.', limit: 10 });
+    expect(lastCall(fetchMock).url).toBe('https://api.example.test/basic/leaderboards/list?prefix=leaderboards.&limit=10');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import type { BeamableMiddleware } from '../src/core/Middleware';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+describe('Middleware', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => jsonResponse({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should run hooks in order and let onRequest add headers', async () => {
+    const calls: string[] = [];
+    const core = new BeamableCore({
+      ...config,
+      middleware: [{
+        onRequest: (req) => { calls.push('config:request'); req.headers['X-Trace-Id'] = 'trace-1'; },
+        onResponse: () => { calls.push('config:response'); },
+      }],
+    });
+    core.use({
+      onRequest: () => { calls.push('use:request'); },
+      onResponse: (res, req) => { calls.push(`use:response ${res.status} ${req.method} ${req.path}`); },
+    });
+
+    await core.request('GET', '/basic/accounts/me');
+
+    expect(calls).toEqual(['config:request', 'use:request', 'config:response', 'use:response 200 GET /basic/accounts/me']);
+    expect(fetchMock.mock.calls[0][1].headers['X-Trace-Id']).toBe('trace-1');
+  });
+
+  it('should short-circuit the network when onRequest returns a response', async () => {
+    const core = new BeamableCore(config);
+    core.use({ onRequest: (req) => (req.path === '/basic/accounts/me' ? jsonResponse({ id: 1 }) : undefined) });
+
+    expect(await core.request('GET', '/basic/accounts/me')).toEqual({ id: 1 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should let onResponse replace the response', async () => {
+    const core = new BeamableCore(config);
+    core.use({ onResponse: () => jsonResponse({ replaced: true }) });
+
+    expect(await core.request('GET', '/object/inventory/1/')).toEqual({ replaced: true });
+  });
+
+  it('should let onError recover from network failures', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+    const onError = vi.fn(() => jsonResponse({ offline: true }));
+    const core = new BeamableCore(config);
+    core.use({ onError });
+
+    expect(await core.request('GET', '/basic/content/manifest/public/json')).toEqual({ offline: true });
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('should see the serialized body and attempt number, and stop running once removed', async () => {
+    const seen: Array<[string | undefined, number]> = [];
+    const mw: BeamableMiddleware = { onRequest: (req) => { seen.push([req.body, req.attempt]); } };
+    const core = new BeamableCore(config);
+    const remove = core.use(mw);
+
+    await core.request('POST', '/basic/auth/token', { grant_type: 'guest' });
+    remove();
+    await core.request('POST', '/basic/auth/token', { grant_type: 'guest' });
+
+    expect(seen).toEqual([[JSON.stringify({ grant_type: 'guest' }), 1]]);
+  });
+});
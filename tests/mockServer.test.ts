@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { BeamContext } from '../src/core/BeamContext';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamableHttpError } from '../src/core/BeamableError';
+import { MockBeamableServer } from '../src/testing';
+
+const secret = 'mock-secret';
+
+describe('MockBeamableServer', () => {
+  let server: MockBeamableServer;
+
+  beforeAll(async () => {
+    server = await MockBeamableServer.start({
+      secret,
+      seed: {
+        accounts: [{ id: 100, email: 'player@example.test', password: 'hunter2', deviceIds: ['device-1'] }],
+        stats: { 'client.public.player.100': { level: 7 } },
+        inventories: { 100: { currencies: { 'currency.gems': 50 }, items: { 'items.Sword': [{ damage: '5' }] } } },
+        content: [{ id: 'items.Sword', content: { id: 'items.Sword', properties: { damage: { data: 5 } } }, tags: ['weapon'] }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should log a new context in as a guest and answer /basic/accounts/me', async () => {
+    const context = await BeamContext.create(server.config({ retry: false }));
+
+    expect(context.playerId).toBe(101);
+    expect(server.getAccount(101)).toMatchObject({ id: 101, deviceIds: [] });
+    expect(server.requests[0]).toMatchObject({ method: 'POST', path: '/basic/auth/token', status: 200 });
+  });
+
+  it('should support password, device and refresh logins, and registration', async () => {
+    const context = await BeamContext.create(server.config({ retry: false }));
+
+    await context.Auth.registerUser('new@example.test', 'pw');
+    expect(await context.Auth.isEmailAvailable('new@example.test')).toEqual({ available: false });
+
+    await context.Auth.loginWithDeviceId('device-1');
+    await expect(context.Auth.getCurrentAccount()).resolves.toMatchObject({ id: 100 });
+    await context.Auth.loginUser('new@example.test', 'pw');
+
+    server.expireAccessTokens();
+    await expect(context.Auth.getCurrentAccount()).resolves.toMatchObject({ id: 101, email: 'new@example.test' });
+
+    await expect(context.Auth.loginUser('player@example.test', 'wrong')).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('should let players write their own stats and read public ones', async () => {
+    const context = await BeamContext.create(server.config({ retry: false }));
+    const own = `client.public.player.${context.playerId}`;
+
+    await context.Stats.setStats(own, { level: 1, name: 'Ana' });
+    await context.Stats.incrementStats(own, { level: 2 });
+    await context.Stats.deleteStats(own, ['name']);
+
+    expect(await context.Stats.getStats(own)).toEqual({ id: own, stats: { level: 3 } });
+    expect(await context.Stats.getStats('client.public.player.100')).toMatchObject({ stats: { level: 7 } });
+    await expect(context.Stats.setStats('client.public.player.100', { level: 99 })).rejects.toMatchObject({ status: 403 });
+    await expect(context.Stats.getStats('client.private.player.100')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should apply inventory updates atomically', async () => {
+    const context = await BeamContext.create(server.config({ retry: false }), 'inventory');
+    const playerId = String(context.playerId);
+
+    await context.Inventory.updateInventory(playerId, {
+      currencies: { 'currency.gems': 10 },
+      newItems: [{ contentId: 'items.Shield', properties: [{ name: 'hp', value: '3' }] }],
+    });
+    const failed = await context.Inventory.addCurrency(playerId, 'currency.gems', -11).catch((e) => e);
+    expect(failed).toBeInstanceOf(BeamableHttpError);
+    expect(failed.body).toMatchObject({ error: 'InsufficientCurrency' });
+
+    const inventory = await context.Inventory.getInventory(playerId);
+    expect(inventory.currencies).toEqual([{ id: 'currency.gems', amount: 10, properties: [] }]);
+    expect(inventory.items).toEqual([
+      { id: 'items.Shield', items: [expect.objectContaining({ properties: [{ name: 'hp', value: '3' }] })] },
+    ]);
+    expect((await context.Inventory.getInventoryByScope(playerId, ['items'])).currencies).toEqual([]);
+    await expect(context.Inventory.getInventory('100')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should serve content through the manifest and the content URLs it lists', async () => {
+    const context = await BeamContext.create(server.config({ retry: false }));
+
+    expect(await context.Content.getContent('items.Sword')).toMatchObject({ properties: { damage: { data: 5 } } });
+
+    server.setContent({ id: 'items.Bow', content: { id: 'items.Bow', properties: {} } });
+    const manifest = await context.Content.getPublicManifest();
+    expect(manifest.entries.map((entry: any) => entry.contentId)).toEqual(['items.Sword', 'items.Bow']);
+  });
+
+  it('should accept signed server-mode requests acting as any player', async () => {
+    const context = await BeamContext.create(server.serverConfig({ retry: false }));
+
+    server.createAccount({ id: 200 });
+    await context.Inventory.transfer('100', '200', { 'currency.gems': 20 });
+    await context.Stats.setStats('game.private.player.100', { banned: false }, '100');
+    await context.Stats.deleteStats('game.private.player.100', ['banned'], '100');
+
+    expect(server.getStats('game.private.player.100')).toEqual({});
+    expect((await context.Inventory.getInventory('100')).currencies).toEqual([{ id: 'currency.gems', amount: 30, properties: [] }]);
+    expect(server.getInventory(200).currencies).toEqual([{ id: 'currency.gems', amount: 20, properties: [] }]);
+    expect(server.requests.every((r) => r.server && r.playerId === 100)).toBe(true);
+  });
+
+  it('should reject wrong signatures and scopes', async () => {
+    const forged = new BeamableCore({ ...server.serverConfig({ retry: false }), secret: 'wrong' });
+    await expect(forged.request('GET', '/object/stats/client.public.player.100', undefined, { auth: true })).rejects.toMatchObject({
+      status: 401,
+      body: { error: 'InvalidSignature' },
+    });
+
+    const otherRealm = new BeamableCore({ ...server.config({ retry: false }), pid: 'other-pid' });
+    await expect(otherRealm.request('POST', '/basic/auth/token', { grant_type: 'guest' })).rejects.toMatchObject({
+      status: 403,
+      body: { error: 'InvalidScope' },
+    });
+  });
+
+  it('should answer 404 for routes it does not emulate', async () => {
+    const core = new BeamableCore(server.config({ retry: false }));
+    await expect(core.request('GET', '/basic/realms/project')).rejects.toMatchObject({ status: 404, body: { error: 'NotFound' } });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import CryptoJS from 'crypto-js';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { AdminTokenSigner, RealmSecretSigner, computeRealmSignature, createRequestSigner } from '../src/core/RequestSigner';
+import { MockBeamableServer } from '../src/testing';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test', retry: false as const };
+
+const md5Base64 = (value: string) => CryptoJS.enc.Base64.stringify(CryptoJS.MD5(value));
+const stubFetch = () => vi.fn(async (_url: string, _init: RequestInit) => jsonResponse({}));
+const sentHeaders = (init: RequestInit) => init.headers as Record<string, string>;
+
+describe('RealmSecretSigner', () => {
+  const signer = new RealmSecretSigner('shh', 'test-pid');
+
+  it('should sign the secret, pid, version, path with query and body', () => {
+    expect(computeRealmSignature('shh', 'test-pid', '/object/stats/x?a=1', '{"b":2}')).toBe(md5Base64('shhtest-pid1/object/stats/x?a=1{"b":2}'));
+    expect(signer.sign({ method: 'POST', url: 'https://api.example.test/object/stats/x?a=1', body: '{"b":2}' })).toEqual({
+      'X-BEAM-SIGNATURE': md5Base64('shhtest-pid1/object/stats/x?a=1{"b":2}'),
+    });
+  });
+
+  it('should leave DELETE bodies and absent bodies out', () => {
+    const url = 'https://api.example.test/object/stats/x/';
+    const expected = md5Base64('shhtest-pid1/object/stats/x/');
+    expect(signer.sign({ method: 'DELETE', url, body: '{"stats":"a"}' })['X-BEAM-SIGNATURE']).toBe(expected);
+    expect(signer.sign({ method: 'GET', url })['X-BEAM-SIGNATURE']).toBe(expected);
+  });
+});
+
+describe('server-mode signing in BeamableCore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should sign the body and URL exactly as sent, after middleware changed them', async () => {
+    const fetchMock = stubFetch();
+    const core = new BeamableCore({
+      ...config,
+      mode: 'server',
+      secret: 'shh',
+      fetch: fetchMock as typeof fetch,
+      middleware: [{ onRequest: (req) => { req.body = '{ "set": {"a":1} }'; req.url += '?trace=1'; } }],
+    });
+
+    await core.request('POST', '/object/stats/x', { set: { a: 2 } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.test/object/stats/x?trace=1');
+    expect(sentHeaders(init)['X-BEAM-SIGNATURE']).toBe(md5Base64('shhtest-pid1/object/stats/x?trace=1{ "set": {"a":1} }'));
+  });
+
+  it('should sign microservice routes with their full path, but never content downloads', async () => {
+    const fetchMock = stubFetch();
+    const core = new BeamableCore({ ...config, hash: 'h', mode: 'server', secret: 'shh', fetch: fetchMock as typeof fetch });
+
+    await core.requestMicroservice('GET', 'Shop', '/prices');
+    await core.fetchJson('https://cdn.example.test/items.Sword.json');
+
+    const [[, msInit], [, cdnInit]] = fetchMock.mock.calls;
+    expect(sentHeaders(msInit)['X-BEAM-SIGNATURE']).toBe(md5Base64('shhtest-pid1/basic/test-cid.test-pid.hmicro_Shop/prices'));
+    expect(cdnInit.headers).toEqual({});
+  });
+
+  it('should authenticate with an admin token when no secret is configured', async () => {
+    const fetchMock = stubFetch();
+    const core = new BeamableCore({ ...config, mode: 'server', adminToken: 'admin-token', fetch: fetchMock as typeof fetch });
+
+    await core.request('GET', '/basic/accounts/me', undefined, { auth: true, gamertag: '7' });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer admin-token', 'X-BEAM-GAMERTAG': '7' });
+    expect(sentHeaders(init)['X-BEAM-SIGNATURE']).toBeUndefined();
+    expect(createRequestSigner({ ...config, mode: 'server', adminToken: 'admin-token' })).toBeInstanceOf(AdminTokenSigner);
+  });
+
+  it('should refuse server mode without credentials or in a browser', () => {
+    expect(() => new BeamableCore({ ...config, mode: 'server' })).toThrow('Server mode needs a secret, an adminToken or a signer.');
+
+    const g = globalThis as { window?: unknown; document?: unknown; process?: NodeJS.Process };
+    const realProcess = g.process;
+    g.window = {};
+    g.document = {};
+    g.process = undefined;
+    try {
+      expect(() => new BeamableCore({ ...config, mode: 'server', secret: 'shh' })).toThrow('Server mode cannot run in a browser');
+      expect(() => new BeamableCore(config)).not.toThrow();
+    } finally {
+      g.process = realProcess;
+      delete g.window;
+      delete g.document;
+    }
+  });
+});
+
+describe('signatures accepted by the mock server', () => {
+  let server: MockBeamableServer;
+
+  beforeAll(async () => {
+    server = await MockBeamableServer.start({ secret: 'shh', adminToken: 'admin-token', seed: { accounts: [{ id: 1 }] } });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should accept GET with a query string, POST, PUT and DELETE', async () => {
+    const core = new BeamableCore(server.serverConfig({ retry: false }));
+
+    await expect(core.request('GET', '/basic/accounts/available?email=a+b%40example.test&x=%C3%A9')).resolves.toEqual({ available: true });
+    await core.request('POST', '/object/stats/game.private.player.1', { set: { 'naïve key': 'ü' }, add: {} });
+    await core.request('PUT', '/object/inventory/1/', { currencies: { 'currency.gems': 3 } }, { gamertag: '1' });
+    await core.request('DELETE', '/object/stats/game.private.player.1/', { stats: 'naïve key' });
+
+    expect(server.requests.map((r) => r.status)).toEqual([200, 200, 200, 200]);
+    expect(server.getStats('game.private.player.1')).toEqual({});
+  });
+
+  it('should accept the admin token', async () => {
+    const core = new BeamableCore({ ...server.config({ retry: false }), mode: 'server', adminToken: 'admin-token' });
+
+    await expect(core.request('GET', '/basic/accounts/me', undefined, { gamertag: '1' })).resolves.toMatchObject({ id: 1 });
+  });
+});
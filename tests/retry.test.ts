@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { StatsModule } from '../src/modules/Stats';
+import { BeamableHttpError } from '../src/core/BeamableError';
+import { computeRetryDelay, parseRetryAfter, resolveRetryPolicy } from '../src/core/RetryPolicy';
+import { jsonResponse } from './helpers';
+
+const config = {
+  cid: 'test-cid',
+  pid: 'test-pid',
+  apiUrl: 'https://api.example.test',
+  retry: { baseDelayMs: 1, jitter: false },
+};
+
+describe('Retry policy', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry GET requests on retryable statuses and network errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ entries: [] }));
+    const core = new BeamableCore(config);
+
+    const manifest = await core.request('GET', '/basic/content/manifest/public/json');
+
+    expect(manifest).toEqual({ entries: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after maxAttempts and throw the last error', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ status: 500, error: 'InternalError' }, 500));
+    const core = new BeamableCore({ ...config, retry: { ...config.retry, maxAttempts: 2 } });
+
+    await expect(core.request('GET', '/object/inventory/1/')).rejects.toBeInstanceOf(BeamableHttpError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry client errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ status: 400, error: 'BadRequest' }, 400));
+    const core = new BeamableCore(config);
+
+    await expect(core.request('GET', '/object/inventory/1/')).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry incrementStats but should retry setStats', async () => {
+    const stats = new StatsModule(new BeamableCore(config));
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 503));
+    await expect(stats.incrementStats('client.public.player.1', { wins: 1 })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 503)).mockResolvedValueOnce(jsonResponse({ stats: {} }));
+    await expect(stats.setStats('client.public.player.1', { alias: 'x' })).resolves.toEqual({ stats: {} });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry POST requests when the policy explicitly allows it', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 429)).mockResolvedValueOnce(jsonResponse({ stats: {} }));
+    const core = new BeamableCore({ ...config, retry: { ...config.retry, retryableMethods: ['GET', 'POST'] } });
+
+    await new StatsModule(core).incrementStats('client.public.player.1', { wins: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry at all when retries are disabled', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 503));
+    const core = new BeamableCore({ ...config, retry: false });
+
+    await expect(core.request('GET', '/object/inventory/1/')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should compute exponential backoff, capped and honoring Retry-After', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: false });
+    expect(computeRetryDelay(policy, 1)).toBe(100);
+    expect(computeRetryDelay(policy, 3)).toBe(400);
+    expect(computeRetryDelay(policy, 10)).toBe(1000);
+    expect(computeRetryDelay(policy, 1, 750)).toBe(750);
+    expect(computeRetryDelay(policy, 1, 60_000)).toBe(1000);
+
+    const jittered = resolveRetryPolicy({ baseDelayMs: 100, jitter: true });
+    for (let i = 0; i < 20; i++) {
+      const delay = computeRetryDelay(jittered, 2);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('not a date')).toBeNull();
+    const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+    expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+  });
+});
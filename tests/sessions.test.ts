@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamContext, configureBeamable } from '../src/core/BeamContext';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test' };
+
+describe('Token sessions', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep tokens separate for cores built with explicit config', () => {
+    const a = new BeamableCore(config);
+    const b = new BeamableCore(config);
+    a.setTokens('token-a', 'refresh-a');
+    b.setTokens('token-b', 'refresh-b');
+    expect(a.getTokens().accessToken).toBe('token-a');
+    expect(b.getTokens().accessToken).toBe('token-b');
+  });
+
+  it('should share the default session between cores built from the global config', () => {
+    configureBeamable(config);
+    const a = new BeamableCore();
+    const b = new BeamableCore();
+    a.setTokens('shared-token', 'shared-refresh');
+    expect(b.getTokens().accessToken).toBe('shared-token');
+    expect(new BeamableCore(config).getTokens().accessToken).toBeNull();
+    a.clearTokens();
+  });
+
+  it('should log each context created with BeamContext.create in as its own player', async () => {
+    let nextPlayer = 1;
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/basic/auth/token')) {
+        const n = nextPlayer++;
+        return jsonResponse({ access_token: `token-${n}`, refresh_token: `refresh-${n}`, expires_in: 3_600_000 });
+      }
+      const auth = (init.headers as Record<string, string>)['Authorization'];
+      return jsonResponse({ id: Number(auth.replace('Bearer token-', '')) * 100 });
+    });
+
+    const player1 = await BeamContext.create(config, 'player1');
+    const player2 = await BeamContext.create(config, 'player2');
+
+    expect(player1.name).toBe('player1');
+    expect(player1.playerId).toBe(100);
+    expect(player2.playerId).toBe(200);
+    expect(player1.core.getTokens().accessToken).toBe('token-1');
+    expect(player2.core.getTokens().accessToken).toBe('token-2');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { BeamableAuthError } from '../src/core/BeamableError';
+import { jsonResponse } from './helpers';
+
+const config = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test' };
+
+describe('BeamableCore token refresh', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should refresh and replay a request once when it returns 401', async () => {
+    const core = new BeamableCore(config);
+    core.setTokens('expired-token', 'refresh-1', 3_600_000);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: 'InvalidTokenError' }, 401))
+      .mockResolvedValueOnce(jsonResponse({ access_token: 'fresh-token', refresh_token: 'refresh-2', expires_in: 3_600_000 }))
+      .mockResolvedValueOnce(jsonResponse({ id: 42 }));
+
+    const account = await core.request('GET', '/basic/accounts/me', undefined, { auth: true });
+
+    expect(account).toEqual({ id: 42 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const refreshBody = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(refreshBody).toEqual({ grant_type: 'refresh_token', refresh_token: 'refresh-1' });
+    expect(fetchMock.mock.calls[2][1].headers['Authorization']).toBe('Bearer fresh-token');
+    expect(core.getTokens().refreshToken).toBe('refresh-2');
+  });
+
+  it('should refresh proactively when the token is about to expire', async () => {
+    const core = new BeamableCore(config);
+    core.setTokens('old-token', 'refresh-1', 10_000);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ access_token: 'fresh-token', refresh_token: 'refresh-2', expires_in: 3_600_000 }))
+      .mockResolvedValueOnce(jsonResponse({ stats: {} }));
+
+    await core.request('GET', '/object/stats/client.public.player.1', undefined, { auth: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.test/basic/auth/token');
+    expect(fetchMock.mock.calls[1][1].headers['Authorization']).toBe('Bearer fresh-token');
+  });
+
+  it('should share a single in-flight refresh between concurrent callers', async () => {
+    const core = new BeamableCore(config);
+    core.setTokens('old-token', 'refresh-1', 0);
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/basic/auth/token')) {
+        return jsonResponse({ access_token: 'fresh-token', refresh_token: 'refresh-2', expires_in: 3_600_000 });
+      }
+      return jsonResponse({ ok: true });
+    });
+
+    await Promise.all([
+      core.request('GET', '/basic/accounts/me', undefined, { auth: true }),
+      core.request('GET', '/basic/accounts/me', undefined, { auth: true }),
+      core.request('GET', '/basic/accounts/me', undefined, { auth: true }),
+    ]);
+
+    const refreshCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/basic/auth/token'));
+    expect(refreshCalls).toHaveLength(1);
+  });
+
+  it('should not retry unauthenticated requests that return 401', async () => {
+    const core = new BeamableCore(config);
+    core.setTokens('token', 'refresh-1', 3_600_000);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'Unauthorized' }, 401));
+
+    await expect(core.request('GET', '/basic/accounts/available?email=a%40b.c')).rejects.toBeInstanceOf(BeamableAuthError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
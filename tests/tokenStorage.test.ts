@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BeamContext } from '../src/core/BeamContext';
+import { BeamableCore } from '../src/core/BeamableCore';
+import { FileTokenStorage, MemoryTokenStorage } from '../src/core/TokenStorage';
+import { MockBeamableServer } from '../src/testing';
+import { jsonResponse } from './helpers';
+
+const baseConfig = { cid: 'test-cid', pid: 'test-pid', apiUrl: 'https://api.example.test' };
+
+describe('Token persistence', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/basic/auth/token')) {
+        return jsonResponse({ access_token: 'guest-token', refresh_token: 'guest-refresh', expires_in: 3_600_000 });
+      }
+      return jsonResponse({ id: 7 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resume a persisted session instead of creating a new guest', async () => {
+    const tokenStorage = new MemoryTokenStorage();
+    const first = await BeamContext.create({ ...baseConfig, tokenStorage }, 'player');
+    expect(first.playerId).toBe(7);
+    expect(await tokenStorage.load(first.core.tokenStorageKey)).toMatchObject({
+      accessToken: 'guest-token',
+      refreshToken: 'guest-refresh',
+    });
+
+    fetchMock.mockClear();
+    const resumed = await BeamContext.create({ ...baseConfig, tokenStorage }, 'player');
+
+    const tokenCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/basic/auth/token'));
+    expect(tokenCalls).toHaveLength(0);
+    expect(resumed.core.getTokens().accessToken).toBe('guest-token');
+    expect(resumed.playerId).toBe(7);
+  });
+
+  it('should key persisted tokens by context name', async () => {
+    const tokenStorage = new MemoryTokenStorage();
+    const a = await BeamContext.create({ ...baseConfig, tokenStorage }, 'a');
+    await a.core.clearTokens();
+    expect(await tokenStorage.load(a.core.tokenStorageKey)).toBeNull();
+    const b = await BeamContext.create({ ...baseConfig, tokenStorage }, 'b');
+    expect(b.core.tokenStorageKey).not.toBe(a.core.tokenStorageKey);
+  });
+
+  it('should round-trip tokens through a file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-tokens-'));
+    const filePath = path.join(dir, 'nested', 'tokens.json');
+    try {
+      const storage = new FileTokenStorage(filePath);
+      expect(await storage.load('key')).toBeNull();
+      await storage.save('key', { accessToken: 'a', refreshToken: 'r', expiresAt: 123 });
+      expect(await new FileTokenStorage(filePath).load('key')).toEqual({ accessToken: 'a', refreshToken: 'r', expiresAt: 123 });
+      await storage.clear('key');
+      expect(await storage.load('key')).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep every key when sessions save to one file concurrently', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beamable-tokens-'));
+    const filePath = path.join(dir, 'tokens.json');
+    try {
+      const storage = new FileTokenStorage(filePath);
+      const other = new FileTokenStorage(filePath);
+      const keys = ['a', 'b', 'c', 'd'];
+      await Promise.all(keys.map((key, i) => (i % 2 ? other : storage).save(key, { accessToken: key, refreshToken: key, expiresAt: i })));
+
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      expect(Object.keys(saved).sort()).toEqual(keys);
+
+      await Promise.all([storage.clear('a'), other.clear('b'), storage.save('e', { accessToken: 'e', refreshToken: 'e', expiresAt: 5 })]);
+      expect(Object.keys(JSON.parse(fs.readFileSync(filePath, 'utf8'))).sort()).toEqual(['c', 'd', 'e']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Token persistence against revoked tokens', () => {
+  it('should fall back to a new guest when the persisted tokens are rejected', async () => {
+    const server = await MockBeamableServer.start({ seed: { accounts: [{ id: 5 }] } });
+    try {
+      const config = { ...server.config({ retry: false as const }), tokenStorage: new MemoryTokenStorage() };
+      const key = new BeamableCore(config, 'revoked').tokenStorageKey;
+      await config.tokenStorage.save(key, { accessToken: 'revoked-access', refreshToken: 'revoked-refresh', expiresAt: null });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const context = await BeamContext.create(config, 'revoked');
+
+      expect(context.playerId).not.toBeNull();
+      expect(context.playerId).not.toBe(5);
+      await expect(context.Auth.getCurrentAccount()).resolves.toMatchObject({ id: context.playerId });
+      expect((await config.tokenStorage.load(key))?.accessToken).not.toBe('revoked-access');
+      expect(server.requests.map((r) => `${r.method} ${r.path} ${r.status}`).slice(0, 3)).toEqual([
+        'GET /basic/accounts/me 401',
+        'POST /basic/auth/token 401',
+        'POST /basic/auth/token 200',
+      ]);
+      warn.mockRestore();
+    } finally {
+      await server.close();
+    }
+  });
+});